@@ -1,33 +1,41 @@
-import { App, Plugin } from "obsidian";
+import { App, Plugin, WorkspaceLeaf } from "obsidian";
 import { NotionMigrationSettingTab } from "./src/ui/NotionMigrationSettingTab";
 import { NotionMigrationSettings, DEFAULT_SETTINGS } from "./src/interfaces/PluginSettings";
 import { ImportControl } from "./src/interfaces/NotionTypes";
+import { ImportTracker } from "./src/core/importTracker";
+import { IMPORT_PROGRESS_VIEW_TYPE, ImportProgressView } from "./src/ui/ImportProgressView";
 
 export default class NotionMigrationPlugin extends Plugin {
     settings: NotionMigrationSettings;
     importControl: ImportControl = {
         isImporting: false,
-        forceStop: false
+        forceStop: false,
+        isPaused: false
     };
     statusBarItem: HTMLElement;
-    
-    // Animation for status text
-    private statusAnimationInterval: number | null = null;
-    private animationDots = 0;
+    tracker = new ImportTracker();
+    private unsubscribeTracker: (() => void) | null = null;
 
     async onload() {
         await this.loadSettings();
         this.addSettingTab(new NotionMigrationSettingTab(this.app, this));
-        
+        this.registerView(IMPORT_PROGRESS_VIEW_TYPE, (leaf) => new ImportProgressView(leaf, this));
+        this.addCommand({
+            id: 'open-import-progress',
+            name: 'Show import progress',
+            callback: () => this.openProgressView()
+        });
+
         // Create the status bar item (initially hidden)
         this.statusBarItem = this.addStatusBarItem();
         this.statusBarItem.addClass('notion-import-status');
         this.statusBarItem.addClass('is-hidden');
+        this.statusBarItem.addEventListener('click', () => this.openProgressView());
     }
     
     async onunload() {
-        // Clean up status bar and any running animations
-        this.stopStatusAnimation();
+        // Clean up status bar and the progress subscription
+        this.stopStatusUpdates();
         if (this.statusBarItem) {
             this.statusBarItem.remove();
         }
@@ -45,37 +53,46 @@ export default class NotionMigrationPlugin extends Plugin {
         return this.app;
     }
 
-    // Method to show the import status in the status bar
+    // Opens the import progress panel in the right sidebar, or reveals it if it is already open
+    async openProgressView() {
+        let leaf: WorkspaceLeaf | null = this.app.workspace.getLeavesOfType(IMPORT_PROGRESS_VIEW_TYPE)[0] || null;
+        if (!leaf) {
+            leaf = this.app.workspace.getRightLeaf(false);
+            await leaf.setViewState({type: IMPORT_PROGRESS_VIEW_TYPE, active: true});
+        }
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    // Method to show the import status in the status bar and start tracking progress
     showImportStatus() {
+        this.tracker.startTracking();
         this.statusBarItem.setText('Migrating content from Notion');
         this.statusBarItem.removeClass('is-hidden');
-        // Create animation effect for the text
-        this.startStatusAnimation();
+        this.startStatusUpdates();
+        this.openProgressView();
     }
 
     // Method to hide the import status from the status bar
     hideImportStatus() {
         this.statusBarItem.addClass('is-hidden');
-        // Stop animation if it exists
-        this.stopStatusAnimation();
+        this.tracker.stopTracking();
+        this.stopStatusUpdates();
     }
 
-    private startStatusAnimation() {
-        // Clear any existing animation
-        this.stopStatusAnimation();
-        
-        // Start a new animation
-        this.statusAnimationInterval = window.setInterval(() => {
-            this.animationDots = (this.animationDots % 3) + 1;
-            const dots = '.'.repeat(this.animationDots);
-            this.statusBarItem.setText(`Migrating content from Notion${dots}`);
-        }, 500); // Update every 500ms
+    private startStatusUpdates() {
+        this.stopStatusUpdates();
+        this.unsubscribeTracker = this.tracker.onUpdate(() => {
+            const counts = this.tracker.getCounts('page');
+            this.statusBarItem.setText(
+                `Notion import: ${this.tracker.getPercentage()}% (${counts.completed}/${counts.total} pages)`
+            );
+        });
     }
 
-    private stopStatusAnimation() {
-        if (this.statusAnimationInterval) {
-            clearInterval(this.statusAnimationInterval);
-            this.statusAnimationInterval = null;
+    private stopStatusUpdates() {
+        if (this.unsubscribeTracker) {
+            this.unsubscribeTracker();
+            this.unsubscribeTracker = null;
         }
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,74 @@
+import { MigrationRun } from "../interfaces/NotionTypes";
+import { NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { notionRequest } from "./notionClient";
+import { isAnchorableBlock } from "./notionHandling";
+import { renderRichTextWithMentions } from "./mentions";
+
+// Indentation, quote markers and the list, to-do or heading marker at the start of a rendered line
+const LINE_MARKER_REGEX = /^\s*(?:>\s?)*\s*(?:[-*+]\s+(?:\[[ xX]\]\s+)?|\d+\.\s+|#{1,6}\s+)?/;
+
+/**
+ * Returns the index of the first line after the frontmatter of a note
+ */
+function bodyStart(lines: string[]): number {
+    if (lines[0] !== "---") {
+        return 0;
+    }
+    const closingIndex = lines.indexOf("---", 1);
+    return closingIndex === -1 ? 0 : closingIndex + 1;
+}
+
+/**
+ * Adds ^block-id anchors to linked blocks whose notes were written before the link was found.
+ * Notes do not record where each block went, so the block is found again by its last line of text,
+ * which has to match exactly one line of the note body.
+ */
+export async function anchorLinkedBlocks(
+    settings: NotionMigrationSettings,
+    app: any,
+    run: MigrationRun,
+    logMessage: Function
+) {
+    for (const [blockId, linkedBlock] of run.linkedBlocks) {
+        const notePath = run.noteIndex.get(linkedBlock.pageId);
+        if (linkedBlock.anchored || !notePath) {
+            continue;
+        }
+        try {
+            const noteContent: string = await app.vault.adapter.read(notePath);
+            if (noteContent.includes(`^${blockId}`)) {
+                linkedBlock.anchored = true;
+                continue;
+            }
+
+            const block = await notionRequest(settings.apiKey, `/blocks/${blockId}`, "GET", undefined, logMessage);
+            if (!isAnchorableBlock(block)) {
+                logMessage(`Links to the ${block.type} block ${blockId} point to its note, since only text blocks get anchors.`);
+                continue;
+            }
+            const renderedText = await renderRichTextWithMentions(block[block.type].rich_text, settings, run, logMessage);
+            const lastLine = renderedText.split("\n").pop().trimEnd();
+
+            const lines = noteContent.split("\n");
+            const text = lastLine.replace(LINE_MARKER_REGEX, "");
+            const matches: number[] = [];
+            for (let index = bodyStart(lines); text && index < lines.length; index++) {
+                if (lines[index].trimEnd().replace(LINE_MARKER_REGEX, "") === text) {
+                    matches.push(index);
+                }
+            }
+            if (matches.length !== 1) {
+                logMessage(matches.length
+                    ? `The linked block ${blockId} matches several lines of ${notePath}, so no anchor was added.`
+                    : `Could not find the linked block ${blockId} in ${notePath}.`);
+                continue;
+            }
+            const index = matches[0];
+            lines[index] = `${lines[index].trimEnd()} ^${blockId}`;
+            await app.vault.adapter.write(notePath, lines.join("\n"));
+            linkedBlock.anchored = true;
+        } catch (error) {
+            logMessage(`Failed to add an anchor for the linked block ${blockId}: ${error.message}`);
+        }
+    }
+}
@@ -0,0 +1,103 @@
+import { ImportControl, MigrationRun } from "../interfaces/NotionTypes";
+import { NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { notionRequest } from "./notionClient";
+import { fetchNotionData } from "./notionHandling";
+import { createMarkdownFiles } from "./markdownCreation";
+import { getPropertyMapping, propertyKey, TAG_PROPERTY_TYPES } from "./propertyMapping";
+import { normalizeNotionId } from "./noteIndex";
+import { sanitizeTitle, writeFilePromise } from "../utils/fileUtils";
+
+/**
+ * Lists the frontmatter keys of the database properties shown as columns of the view.
+ * The title is left out since every view starts with the note itself.
+ */
+function viewColumns(properties: any, settings: NotionMigrationSettings): string[] {
+    return Object.entries(properties || {})
+        .map(([name, property]: [string, any]) => ({name, type: property.type, mapping: getPropertyMapping(settings, name)}))
+        .filter(({name, type, mapping}) =>
+            type !== "title" &&
+            settings.enabledProperties[name] !== false &&
+            mapping.placement === "frontmatter" &&
+            !(mapping.toTags && TAG_PROPERTY_TYPES.includes(type))
+        )
+        .map(({name, type, mapping}) => propertyKey(name, type, mapping, settings));
+}
+
+/**
+ * Builds a Dataview table of the notes in a folder
+ */
+function buildDataviewQuery(folder: string, columns: string[]): string {
+    const fields = ["file.link AS \"Name\"", ...columns.map((column) => `row["${column}"] AS "${column}"`)];
+    return `\`\`\`dataview\nTABLE WITHOUT ID ${fields.join(", ")}\nFROM "${folder}"\nSORT file.name ASC\n\`\`\`\n\n`;
+}
+
+/**
+ * Builds an Obsidian Bases file with a table of the notes in a folder
+ */
+function buildBase(title: string, folder: string, columns: string[]): string {
+    let content = "filters:\n  and:\n";
+    content += `    - ${JSON.stringify(`file.inFolder(${JSON.stringify(folder)})`)}\n`;
+    content += "views:\n  - type: table\n";
+    content += `    name: ${JSON.stringify(title)}\n`;
+    content += "    order:\n      - file.name\n";
+    content += columns.map((column) => `      - ${JSON.stringify(`note.${column}`)}\n`).join("");
+    return content;
+}
+
+/**
+ * Imports the rows of an inline database into a subfolder of the migration folder, through the
+ * same pipeline as the migrated database, and returns the Dataview query or Bases embed
+ * that lists them in the parent note
+ */
+export async function importChildDatabase(
+    block: any,
+    settings: NotionMigrationSettings,
+    app: any,
+    importControl: ImportControl,
+    logMessage: Function,
+    run: MigrationRun
+): Promise<string> {
+    const id = normalizeNotionId(block.id);
+    if (run.childDatabases.has(id)) {
+        return run.childDatabases.get(id);
+    }
+
+    const vaultPath = app.vault.adapter.basePath;
+    const database = await notionRequest(settings.apiKey, `/databases/${block.id}`, "GET", undefined, logMessage);
+    const title = sanitizeTitle(block.child_database.title || "") || "Untitled database";
+    const folder = settings.migrationPath ? `${settings.migrationPath}/${title}` : title;
+
+    logMessage(`Importing inline database ${title}...`);
+    const pages = await fetchNotionData(block.id, settings.apiKey, logMessage);
+    run.stats.fetchedPages += pages.length;
+    for (const page of pages) {
+        run.tracker && run.tracker.addItem(page.id, block.id, "page");
+    }
+
+    // Nested databases of these rows end up in subfolders of this one
+    const databaseSettings: NotionMigrationSettings = {...settings, databaseId: block.id, migrationPath: folder};
+    await createMarkdownFiles(pages, databaseSettings, app, importControl, logMessage, run, true);
+
+    const columns = viewColumns(database.properties, databaseSettings);
+    let view: string;
+    if (settings.childDatabaseView === "base") {
+        const basePath = `${folder}/${title}.base`;
+        if (run.preview) {
+            const baseExists = await app.vault.adapter.exists(basePath);
+            run.preview.files.push({path: basePath, action: baseExists ? "update" : "create"});
+        } else {
+            // The view file is generated, so it is replaced unless existing files are kept
+            await writeFilePromise(
+                `${vaultPath}/${basePath}`,
+                buildBase(title, folder, columns),
+                settings.conflictPolicy === "skip" ? "skip" : "overwrite"
+            );
+        }
+        view = `![[${title}.base]]\n\n`;
+    } else {
+        view = buildDataviewQuery(folder, columns);
+    }
+
+    run.childDatabases.set(id, view);
+    return view;
+}
@@ -0,0 +1,127 @@
+import { moment } from "obsidian";
+import type { Moment, MomentFormatSpecification, MomentInput } from "moment";
+
+// Notion sends dates without a time as "2024-05-01"
+const DATE_ONLY_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Timestamps in ISO 8601, with or without seconds, milliseconds and an offset
+const ISO_FORMATS = [
+    "YYYY-MM-DDTHH:mm",
+    "YYYY-MM-DDTHH:mmZ",
+    "YYYY-MM-DDTHH:mm:ss",
+    "YYYY-MM-DDTHH:mm:ssZ",
+    "YYYY-MM-DDTHH:mm:ss.SSS",
+    "YYYY-MM-DDTHH:mm:ss.SSSZ",
+];
+
+// Dates as Notion shows them in text, e.g. "May 1, 2024", optionally followed by a time like "2:30 PM".
+// Numeric dates are read month first, as in Notion's US format, so one column never mixes both orders.
+const NOTION_DATE_FORMATS = ["MMMM D, YYYY", "MMM D, YYYY", "M/D/YYYY", "YYYY/M/D"];
+const NOTION_TIME_FORMATS = ["h:mm A", "H:mm"];
+
+const TEXT_DATE_FORMATS = ISO_FORMATS.concat(
+    NOTION_DATE_FORMATS,
+    ...NOTION_DATE_FORMATS.map((dateFormat) => NOTION_TIME_FORMATS.map((timeFormat) => `${dateFormat} ${timeFormat}`))
+);
+
+/**
+ * Creates a moment in local time. Obsidian types its moment export as a namespace, so it is called untyped here.
+ */
+function localMoment(input: MomentInput, format?: MomentFormatSpecification, strict?: boolean): Moment {
+    return (moment as any)(input, format, strict);
+}
+
+/**
+ * Checks whether a Notion date value has no time part
+ */
+export function isDateOnly(value: string): boolean {
+    return DATE_ONLY_REGEX.test(value);
+}
+
+/**
+ * Checks whether a timezone setting is "UTC", "local" or a timezone name the system knows
+ */
+export function isValidTimezone(timezone: string): boolean {
+    if (!timezone || timezone === "UTC" || timezone === "local") {
+        return true;
+    }
+    try {
+        new Intl.DateTimeFormat("en-US", {timeZone: timezone});
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Returns the offset of a named timezone from UTC in minutes at the given moment
+ */
+function timezoneOffset(date: Date, timezone: string): number {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find((candidate) => candidate.type === type).value);
+    const asUtc = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"), part("second"));
+    return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * Converts a Notion timestamp to a moment in the chosen timezone
+ */
+function toTimezone(value: string, timezone: string) {
+    if (!timezone || timezone === "UTC") {
+        return moment.utc(value);
+    }
+    if (timezone === "local") {
+        return localMoment(value);
+    }
+    const date = new Date(value);
+    return localMoment(date).utcOffset(timezoneOffset(date, timezone));
+}
+
+/**
+ * Formats a Notion date or timestamp for a property.
+ * Dates without a time stay plain dates; timestamps are shown in the chosen timezone,
+ * with UTC keeping the ISO format of earlier imports.
+ */
+export function formatPropertyDate(value: string, timezone: string): string {
+    if (isDateOnly(value)) {
+        return value;
+    }
+    if (!timezone || timezone === "UTC") {
+        return moment.utc(value).toISOString();
+    }
+    return toTimezone(value, timezone).format("YYYY-MM-DDTHH:mm:ssZ");
+}
+
+/**
+ * Formats a Notion date or timestamp with a moment.js format, e.g. "YYYY-MM-DD" for daily notes
+ */
+export function formatDate(value: string, format: string, timezone: string): string {
+    if (isDateOnly(value)) {
+        return localMoment(value, "YYYY-MM-DD").format(format);
+    }
+    return toTimezone(value, timezone).format(format);
+}
+
+/**
+ * Reads a date written as text, e.g. "May 1, 2024", as a property date.
+ * Only ISO dates and the formats Notion shows are accepted, so other text returns null.
+ */
+export function parseDateValue(value: string, timezone: string): string | null {
+    if (isDateOnly(value)) {
+        return localMoment(value, "YYYY-MM-DD", true).isValid() ? value : null;
+    }
+    const date = localMoment(value.trim(), TEXT_DATE_FORMATS, true);
+    if (!date.isValid()) {
+        return null;
+    }
+    return /\d:\d/.test(value) ? formatPropertyDate(date.toISOString(), timezone) : date.format("YYYY-MM-DD");
+}
@@ -0,0 +1,107 @@
+import * as path from "path";
+import { MigrationRun } from "../interfaces/NotionTypes";
+import { MigrationFailure } from "../interfaces/PluginSettings";
+import { notionRequest } from "./notionClient";
+
+/**
+ * Returns the Obsidian comment left in a note where nested blocks could not be fetched
+ */
+export function failedBlockMarker(blockId: string): string {
+    return `%% notion-failed-block:${blockId} %%`;
+}
+
+/**
+ * Replaces the marker of a failed block with its rendered content,
+ * keeping the quote prefix when the marker sits inside a toggle, callout or column and the indent below list items
+ */
+export function replaceFailedBlockMarker(noteContent: string, blockId: string, renderedContent: string): string {
+    const markerLine = new RegExp(`^([> ]+)?${failedBlockMarker(blockId)}$`, "m");
+    return noteContent.replace(markerLine, (match, prefix) => {
+        if (!prefix) {
+            return renderedContent.replace(/\n+$/, "");
+        }
+        return renderedContent
+            .replace(/\n+$/, "")
+            .split("\n")
+            .map((line) => prefix + line)
+            .join("\n");
+    });
+}
+
+/**
+ * Adds a failure to the current run, replacing an earlier record of the same item
+ */
+export function recordFailure(run: MigrationRun | null, failure: MigrationFailure) {
+    if (!run) {
+        return;
+    }
+    const index = run.failures.findIndex((existing) =>
+        existing.type === failure.type &&
+        existing.pageId === failure.pageId &&
+        existing.blockId === failure.blockId &&
+        existing.propertyName === failure.propertyName &&
+        existing.fileName === failure.fileName
+    );
+    if (index >= 0) {
+        run.failures.splice(index, 1, failure);
+    } else {
+        run.failures.push(failure);
+    }
+}
+
+/**
+ * Remembers which note belongs to a page once it has been written, so failures can be patched later
+ */
+export function assignNotePath(run: MigrationRun | null, pageId: string, notePath: string) {
+    if (!run) {
+        return;
+    }
+    for (const failure of run.failures) {
+        if (failure.pageId === pageId && !failure.notePath && failure.type !== "subpage") {
+            failure.notePath = notePath;
+        }
+    }
+}
+
+/**
+ * Describes a failed item for the migration log
+ */
+export function describeFailure(failure: MigrationFailure): string {
+    switch (failure.type) {
+        case "page":
+            return `Page "${failure.title}"`;
+        case "subpage":
+            return `Subpage "${failure.title}"`;
+        case "block":
+            return `Nested blocks in "${failure.title}"`;
+        case "attachment":
+            return `Attachment ${path.basename(failure.targetPath || failure.fileName || "")} in "${failure.title}"`;
+    }
+}
+
+/**
+ * Fetches a fresh download URL for a failed attachment.
+ * Notion file URLs expire after an hour, so the one from the failed run cannot be reused.
+ */
+export async function fetchAttachmentUrl(failure: MigrationFailure, apiKey: string, logMessage?: Function): Promise<string> {
+    if (failure.blockId) {
+        const block = await notionRequest(apiKey, `/blocks/${failure.blockId}`, "GET", undefined, logMessage);
+        const media = block[block.type];
+        const url = media && (media.type === "file" ? media.file?.url : media.external?.url);
+        if (!url) {
+            throw new Error("The block no longer has a file");
+        }
+        return url;
+    }
+
+    const page = await notionRequest(apiKey, `/pages/${failure.pageId}`, "GET", undefined, logMessage);
+    const property = page.properties[failure.propertyName];
+    const file = property && property.files
+        ? property.files.find((candidate: any) => candidate.name === failure.fileName)
+        : null;
+    const url = file && (file.type === "file" ? file.file?.url : file.external?.url);
+    if (!url) {
+        throw new Error(`The file is no longer in the "${failure.propertyName}" property`);
+    }
+    return url;
+}
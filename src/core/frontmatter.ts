@@ -0,0 +1,89 @@
+import { PropertyScalar, PropertyValue } from "./propertyValues";
+
+// Words YAML reads as booleans or null, so strings spelled like them are quoted
+const RESERVED_WORDS = /^(?:true|false|yes|no|on|off|y|n|null|~)$/i;
+
+// Strings YAML would read as a number, such as "42", "-1.5", "1e3", "0x1F", ".inf" or the base 60 "12:30"
+const NUMBER_LIKE = /^[-+]?(?:\d[\d_]*(?:\.\d*)?(?:e[-+]?\d+)?|\.\d+(?:e[-+]?\d+)?|0x[\da-f]+|0o[0-7]+|\d+(?::[0-5]?\d)+(?:\.\d*)?|\.inf|\.nan)$/i;
+
+// Characters that start a YAML flow collection, alias, tag, block scalar, comment or quote
+const INDICATOR_START = /^[-?:,[\]{}#&*!|>'"%@`]/;
+
+/**
+ * Checks whether a string contains a control character, such as a tab or a line break
+ */
+function hasControlCharacter(value: string): boolean {
+    return [...value].some((character) => character.charCodeAt(0) < 32 || character.charCodeAt(0) === 127);
+}
+
+/**
+ * Checks whether a string has to be quoted to be read back as the same string.
+ * Plain dates like 2024-05-01 stay unquoted, so Obsidian shows them as dates.
+ */
+function needsQuotes(value: string): boolean {
+    return (
+        value === "" ||
+        RESERVED_WORDS.test(value) ||
+        NUMBER_LIKE.test(value) ||
+        INDICATOR_START.test(value) ||
+        /^\s|\s$/.test(value) ||
+        /: |:$| #/.test(value) ||
+        hasControlCharacter(value)
+    );
+}
+
+/**
+ * Formats a string as a YAML scalar, in double quotes with escapes when a plain scalar would be misread
+ */
+function formatString(value: string): string {
+    // A JSON string is a valid double-quoted YAML scalar
+    return needsQuotes(value) ? JSON.stringify(value) : value;
+}
+
+/**
+ * Formats a single value as a YAML scalar
+ */
+function formatScalar(value: PropertyScalar): string {
+    if (typeof value === "number") {
+        return Number.isFinite(value) ? String(value) : JSON.stringify(String(value));
+    }
+    if (typeof value === "boolean") {
+        return value ? "true" : "false";
+    }
+    return formatString(String(value));
+}
+
+/**
+ * Formats a frontmatter key, quoting names YAML would otherwise misread
+ */
+export function formatYamlKey(key: string): string {
+    return formatString(key);
+}
+
+/**
+ * Serializes one frontmatter property. Lists become block sequences, which Obsidian shows as list properties,
+ * and empty values are left blank.
+ */
+export function serializeProperty(key: string, value: PropertyValue): string {
+    if (Array.isArray(value)) {
+        if (!value.length) {
+            return `${formatYamlKey(key)}: []\n`;
+        }
+        return `${formatYamlKey(key)}:\n${value.map((item) => `  - ${formatScalar(item)}\n`).join("")}`;
+    }
+    if (value === null || value === undefined) {
+        return `${formatYamlKey(key)}:\n`;
+    }
+    return `${formatYamlKey(key)}: ${formatScalar(value)}\n`;
+}
+
+/**
+ * Serializes properties, in order, to a frontmatter block between --- lines
+ */
+export function serializeFrontmatter(properties: Map<string, PropertyValue>): string {
+    let content = "---\n";
+    for (const [key, value] of properties) {
+        content += serializeProperty(key, value);
+    }
+    return content + "---\n";
+}
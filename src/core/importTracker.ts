@@ -0,0 +1,174 @@
+export type TrackedItemType = 'page' | 'attachment' | 'subpage';
+
+interface TypeCounts {
+    total: number;
+    completed: number;
+    failed: number;
+}
+
+/**
+ * Tracks the pages, subpages and attachments of an import.
+ * Holds the progress model only; views subscribe with onUpdate to render it.
+ */
+export class ImportTracker {
+    private totalItems = 0;
+    private processedItems = 0;
+    private startedAt = 0;
+    private isTracking = false;
+    private currentPage = "";
+    private itemsByType: { [type in TrackedItemType]: TypeCounts } = {
+        page: {total: 0, completed: 0, failed: 0},
+        attachment: {total: 0, completed: 0, failed: 0},
+        subpage: {total: 0, completed: 0, failed: 0}
+    };
+
+    private itemsMap: Map<string, {
+        parentPage: string,
+        status: 'pending' | 'success' | 'error',
+        type: TrackedItemType,
+        subtype?: string,
+        error?: string
+    }> = new Map();
+
+    private listeners: Array<() => void> = [];
+
+    private logMessageCallback: (message: string) => void;
+
+    constructor(logCallback?: (message: string) => void) {
+        this.logMessageCallback = logCallback;
+    }
+
+    public setLogCallback(logCallback: (message: string) => void) {
+        this.logMessageCallback = logCallback;
+    }
+
+    /**
+     * Registers a callback run whenever the progress changes. Returns a function that unregisters it.
+     */
+    public onUpdate(listener: () => void): () => void {
+        this.listeners.push(listener);
+        return () => {
+            this.listeners = this.listeners.filter((existing) => existing !== listener);
+        };
+    }
+
+    public startTracking(itemCount?: number) {
+        this.totalItems = itemCount || 0;
+        this.processedItems = 0;
+        this.startedAt = Date.now();
+        this.isTracking = true;
+        this.currentPage = "";
+        this.itemsMap.clear();
+        this.itemsByType = {
+            page: {total: 0, completed: 0, failed: 0},
+            attachment: {total: 0, completed: 0, failed: 0},
+            subpage: {total: 0, completed: 0, failed: 0}
+        };
+
+        this.notify();
+    }
+
+    public stopTracking() {
+        this.isTracking = false;
+        this.currentPage = "";
+        this.notify();
+    }
+
+    public setCurrentPage(title: string) {
+        this.currentPage = title;
+        this.notify();
+    }
+
+    public addItem(id: string, parentPage: string, type: TrackedItemType, subtype?: string) {
+        // An item retried within the same run is only counted once
+        if (this.itemsMap.has(id)) {
+            return;
+        }
+        this.itemsMap.set(id, {
+            parentPage,
+            status: 'pending',
+            type,
+            subtype
+        });
+
+        // Update type-specific counters
+        this.itemsByType[type].total++;
+
+        this.totalItems = this.itemsMap.size;
+        this.notify();
+    }
+
+    public markItemComplete(id: string, success: boolean, errorMessage?: string) {
+        const item = this.itemsMap.get(id);
+        if (!item || item.status !== 'pending') {
+            return;
+        }
+
+        item.status = success ? 'success' : 'error';
+        if (errorMessage) {
+            item.error = errorMessage;
+        }
+
+        this.processedItems++;
+
+        // Update type-specific completed counters
+        if (success) {
+            this.itemsByType[item.type].completed++;
+        } else {
+            this.itemsByType[item.type].failed++;
+        }
+
+        // Log summary message at certain thresholds
+        if (this.processedItems % 10 === 0 && this.logMessageCallback) {
+            this.logMessageCallback(`Progress: ${this.getSummary()}`);
+        }
+
+        this.notify();
+    }
+
+    public getCounts(type: TrackedItemType): TypeCounts {
+        return {...this.itemsByType[type]};
+    }
+
+    public getCurrentPage(): string {
+        return this.currentPage;
+    }
+
+    public isActive(): boolean {
+        return this.isTracking;
+    }
+
+    public getPercentage(): number {
+        return this.totalItems > 0 ? Math.round((this.processedItems / this.totalItems) * 100) : 0;
+    }
+
+    /**
+     * Estimates the remaining time in milliseconds from the average time per processed item.
+     * Database pages are fetched in batches, so the estimate only covers the items found so far.
+     */
+    public getEstimatedTimeLeft(): number | null {
+        if (!this.isTracking || this.processedItems === 0) {
+            return null;
+        }
+        const elapsed = Date.now() - this.startedAt;
+        const remaining = this.totalItems - this.processedItems;
+        return Math.round((elapsed / this.processedItems) * remaining);
+    }
+
+    public getSummary(): string {
+        const pages = this.itemsByType.page;
+        const attachments = this.itemsByType.attachment;
+        const subpages = this.itemsByType.subpage;
+
+        return `${this.processedItems}/${this.totalItems} items (${this.getPercentage()}%) • ` +
+            `Pages: ${pages.completed}/${pages.total} • ` +
+            `Attachments: ${attachments.completed}/${attachments.total} (${attachments.failed} failed) • ` +
+            `Subpages: ${subpages.completed}/${subpages.total} (${subpages.failed} failed)`;
+    }
+
+    private notify() {
+        for (const listener of this.listeners) {
+            listener();
+        }
+    }
+}
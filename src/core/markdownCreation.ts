@@ -1,420 +1,534 @@
-import { moment, request } from "obsidian";
 import { extractContentFromPage } from "./notionHandling";
 import { 
     downloadFile, 
     generateUniqueTitle, 
     sanitizeTitle, 
     writeFilePromise,
-    getFileExtension 
+    getFileExtension,
+    toVaultPath
 } from "../utils/fileUtils";
 import * as path from "path";
-import { ImportControl } from "../interfaces/NotionTypes";
+import { ImportControl, MigrationRun } from "../interfaces/NotionTypes";
+import { NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { isPageUnchanged, recordSyncedPage } from "./syncState";
+import { normalizeNotionId } from "./noteIndex";
+import { assignNotePath, recordFailure } from "./failures";
+import { recordWrittenNote } from "./migrationReport";
+import { richTextToPlainText } from "./richText";
+import { renderRichTextWithMentions } from "./mentions";
+import { formatPropertyDate } from "./dates";
+import { fetchPageTitle, formulaValue, PropertyValue, rollupValue, userName } from "./propertyValues";
+import { serializeFrontmatter } from "./frontmatter";
+import {
+    convertPropertyValue,
+    dateEndKey,
+    getPropertyMapping,
+    propertyKey,
+    renderBodyProperty,
+    renderInlineField,
+    TAG_PROPERTY_TYPES,
+    toTag
+} from "./propertyMapping";
 
 /**
- * Creates markdown files from Notion data
+ * A note rendered from a Notion page, ready to be written or listed in a dry run
  */
-export async function createMarkdownFiles(
-    allPages: any[],
-    folderName: string,
-    apiKey: string,
+interface RenderedNote {
+    page: any;
+    title: string;
+    filePath: string;
+    existingPath: string | null;
+    content: string;
+}
+
+/**
+ * Remembers a property type that has no converter, logging it the first time it is seen in a run
+ */
+function recordUnsupportedProperty(run: MigrationRun, propertyType: string, propertyName: string, logMessage: Function) {
+    const properties = run.unsupportedProperties[propertyType];
+    if (!properties) {
+        logMessage(`Unsupported property type "${propertyType}", the "${propertyName}" property is not imported.`);
+        run.unsupportedProperties[propertyType] = [propertyName];
+    } else if (!properties.includes(propertyName)) {
+        properties.push(propertyName);
+    }
+}
+
+/**
+ * Builds the path and content of the note for a Notion page without writing it.
+ * Returns null when the page is skipped because its note is unchanged or already imported.
+ */
+async function renderMarkdownFile(
+    page: any,
+    settings: NotionMigrationSettings,
     app: any,
-    attachPageId: boolean,
-    importPageContent: boolean,
     importControl: ImportControl,
     logMessage: Function,
-    createRelationContentPage: boolean,
-    enabledProperties: { [key: string]: boolean },
-    createSemanticLinking: boolean,
-    attachmentPath: string,
-    squashDateNamesForDataview: boolean,
-    subpagesPath: string,
-    importSubpages: boolean
-) {
-    const promises: Promise<any>[] = [];
+    run: MigrationRun
+): Promise<RenderedNote | null> {
+    const {
+        migrationPath: folderName,
+        attachPageId,
+        importPageContent,
+        createRelationContentPage,
+        enabledProperties,
+        createSemanticLinking,
+        attachmentPath,
+        syncMode,
+        conflictPolicy,
+    } = settings;
+    const {syncState, checkpoint, noteIndex, tracker, preview} = run;
     const vaultPath = app.vault.adapter.basePath; // Get the base path of the Obsidian vault
     let pageTitle = "";
 
-    // Initial check if import should proceed
-    if (!importControl || !importControl.isImporting) {
-        logMessage("Import not active or was halted.");
-        return;
-    }
+    let relationLinks: string[] = [];
+    let relationSemanticLinks: string[] = [];
+    let title = "empty";
+    for (const [key, property] of Object.entries(page.properties as any)) {
+        if ((property as any).title && ((property as any).title as any)[0]) {
+            title = ((property as any).title as any)[0].plain_text;
+            title = sanitizeTitle(title);
 
-    for (const page of allPages) {
-        if (!importControl.isImporting) {
-            logMessage(
-                "Import halted by user. Finishing remaining subpages and files..."
-            );
             break;
         }
-        let relationLinks: string[] = [];
-        let relationSemanticLinks: string[] = [];
-        let title = "empty";
-        for (const [key, property] of Object.entries(page.properties as any)) {
-            if ((property as any).title && ((property as any).title as any)[0]) {
-                title = ((property as any).title as any)[0].plain_text;
-                title = sanitizeTitle(title);
+    }
+    tracker && tracker.setCurrentPage(title);
+    // Find the note written for this page by an earlier run, even if it was renamed
+    const syncRecord = syncState ? syncState.pages[page.id] : undefined;
+    let existingPath = noteIndex.get(normalizeNotionId(page.id)) || null;
+    if (!existingPath && syncRecord && await app.vault.adapter.exists(syncRecord.filePath)) {
+        existingPath = syncRecord.filePath;
+    }
 
-                break;
-            }
-        }
+    if (existingPath && syncMode && isPageUnchanged(syncState, page)) {
+        logMessage(`Unchanged since last sync: ${title}`);
+        checkpoint && checkpoint.writtenPageIds.push(page.id);
+        tracker && tracker.markItemComplete(page.id, true);
+        run.stats.skippedPages++;
+        return null;
+    }
+    if (existingPath && conflictPolicy === "skip") {
+        logMessage(`Already imported, skipping: ${title}`);
+        checkpoint && checkpoint.writtenPageIds.push(page.id);
+        tracker && tracker.markItemComplete(page.id, true);
+        run.stats.skippedPages++;
+        return null;
+    }
+
+    let filePath: string;
+    if (existingPath) {
+        filePath = existingPath;
+        title = path.basename(existingPath, ".md");
+    } else {
         // Append the Notion page ID to the title to ensure uniqueness
         if (attachPageId) title = `${title}_${page.id}`;
-        else title = generateUniqueTitle(title, `${vaultPath}/${folderName}`);
-
-        let content = `---\n`;
-
-        for (const [key, property] of Object.entries(page.properties as any)) {
-            if (enabledProperties[key] === false) {
-                continue;
+        else {
+            const uniqueTitle = generateUniqueTitle(
+                title,
+                `${vaultPath}/${folderName}`,
+                preview ? preview.plannedPaths : undefined
+            );
+            if (preview && uniqueTitle !== title) {
+                preview.collisions.push({title, path: `${folderName}/${uniqueTitle}.md`});
             }
+            title = uniqueTitle;
+        }
+        filePath = `${folderName}/${title}.md`;
+        preview && preview.plannedPaths.add(`${vaultPath}/${filePath}`);
+    }
 
-            const safeKey = (key: string) => (/[^\w\s]/.test(key) ? `"${key}"` : key);
-            const safeValue = (value: string) => 
-                /[\W_]/.test(value) ? `"${value}"` : value;
-
-            switch ((property as any).type) {
-                case "select":
-                    if ((property as any).select) {
-                        content += `${safeKey(key)}: ${safeValue(
-                            (property as any).select.name
-                        )}\n`;
-                    }
-                    break;
-                case "rich_text":
-                    if ((property as any).rich_text && (property as any).rich_text.length) {
-                        const textContent = (property as any).rich_text
-                            .map((text: any) => text.plain_text)
-                            .join("")
-                            .replace(/\n/g, " "); // Replacing newline characters with spaces
-                        content += `${safeKey(key)}: >-\n  ${safeValue(
-                            textContent
-                        )}\n`;
-                    } else {
-                        content += `${safeKey(key)}: null\n`;
-                    }
-
-                    break;
-                case "checkbox":
-                    content += `${safeKey(key)}: ${
-                        (property as any).checkbox ? "true" : "false"
-                    }\n`;
-                    break;
-                case "date": {
-                    let finalKey = key;
-                    if (squashDateNamesForDataview) {
-                        finalKey = key
-                            .split(" ")
-                            .map(
-                                (word) =>
-                                    word.charAt(0).toUpperCase() + word.slice(1)
-                            )
-                            .join("");
-                    }
+    const properties = new Map<string, PropertyValue>();
+    // Properties mapped to inline fields or to the body, written above the page content
+    let inlineFields = "";
+    let bodyProperties = "";
+    // Options of the properties sent to the note's tags
+    const tags: string[] = [];
+
+    for (const [key, property] of Object.entries(page.properties as any)) {
+        if (enabledProperties[key] === false) {
+            if (preview) {
+                preview.droppedProperties[key] = "disabled in settings";
+            }
+            continue;
+        }
 
-                    if ((property as any).date && (property as any).date.start) {
-                        let newDate = moment
-                            .utc((property as any).date.start)
-                            .toISOString();
-                        content += `${safeKey(finalKey)}: ${newDate}\n`;
-                    } else {
-                        content += `${safeKey(finalKey)}: null\n`;
+        const propertyType = (property as any).type;
+        const mapping = getPropertyMapping(settings, key);
+        // The title is kept as an alias, since the note is named after it
+        const targetKey = propertyKey(propertyType === "title" ? "Alias" : key, propertyType, mapping, settings);
+        const converted = new Map<string, PropertyValue>();
+
+        switch ((property as any).type) {
+            case "select":
+            case "status": {
+                const option = (property as any)[(property as any).type];
+                converted.set(targetKey, option && option.name ? option.name : null);
+                break;
+            }
+            case "rich_text":
+                if ((property as any).rich_text && (property as any).rich_text.length) {
+                    const richText = await renderRichTextWithMentions((property as any).rich_text, settings, run, logMessage);
+                    converted.set(targetKey, richText.replace(/\n/g, " ")); // Replacing newline characters with spaces
+                } else {
+                    converted.set(targetKey, null);
+                }
+                break;
+            case "checkbox":
+                converted.set(targetKey, !!(property as any).checkbox);
+                break;
+            case "date":
+                if ((property as any).date && (property as any).date.start) {
+                    converted.set(targetKey, formatPropertyDate((property as any).date.start, settings.timezone));
+                    // The end of a date range goes to a second key next to the start
+                    if ((property as any).date.end) {
+                        const endKey = dateEndKey(key, mapping, settings);
+                        converted.set(endKey, formatPropertyDate((property as any).date.end, settings.timezone));
                     }
-                    break;
+                } else {
+                    converted.set(targetKey, null);
                 }
+                break;
 
-                case "number":
-                    if ((property as any).number) {
-                        content += `${safeKey(key)}: ${(property as any).number}\n`;
-                    } else {
-                        content += `${safeKey(key)}: \n`;
-                    }
-                    break;
-                case "status":
-                    if ((property as any).status && (property as any).status.name) {
-                        content += `${safeKey(key)}: ${safeValue(
-                            (property as any).status.name
-                        )}\n`;
-                    } else {
-                        content += `${safeKey(key)}: \n`;
-                    }
-                    break;
-                case "multi_select":
-                    if ((property as any).multi_select && (property as any).multi_select.length) {
-                        const tags = (property as any).multi_select
-                            .map((tag: any) => `${tag.name}`)
-                            .join(" ");
-                        content += `${safeKey(key)}: ${tags}\n`;
-                    }
-                    break;
-                case "files":
-                    content += `${safeKey(key)}:\n`;
-                    if ((property as any).files && (property as any).files.length > 0) {
-                        for (const file of (property as any).files) {
-                            try {
-                                let fileUrl, fileName;
-
-                                if (file.type === "external") {
-                                    fileUrl = file.external?.url;
-                                    fileName =
-                                        fileUrl.split("/").pop() ||
-                                        `external_file_${Date.now()}`;
-                                } else if (file.type === "file") {
-                                    fileUrl = file.file?.url;
-                                    fileName =
-                                        file.name ||
-                                        `notion_file_${Date.now()}`;
-                                }
-
-                                if (!fileUrl) {
-                                    console.warn(
-                                        `No URL found for file: ${fileName}`
-                                    );
-                                    continue;
-                                }
-
-                                const fileExtension = getFileExtension(fileUrl);
-                                const safeFileName = sanitizeTitle(fileName);
-                                const outputPath = path.join(
-                                    attachmentPath,
-                                    `${safeFileName}${
-                                        fileExtension ? "." + fileExtension : ""
-                                    }`
-                                );
-
-                                await downloadFile(
-                                    fileUrl,
-                                    outputPath,
-                                    app
-                                );
-                                content += `  - [[${path.basename(
-                                    outputPath
-                                )}]]\n`;
-                                logMessage(`Downloaded file: ${fileName}`);
-                            } catch (error) {
-                                const errorMsg = `Failed to download file: ${error.message}`;
-                                console.error(errorMsg);
-                                logMessage(errorMsg);
-                                content += `  - Failed: ${
-                                    file.name || "unnamed file"
-                                } (${error.message})\n`;
-                            }
+            case "number":
+                // 0 is a value too, only null means the cell is empty
+                converted.set(targetKey, (property as any).number ?? null);
+                break;
+            case "multi_select":
+                converted.set(targetKey, ((property as any).multi_select || []).map((option: any) => option.name));
+                break;
+            case "files": {
+                const links: string[] = [];
+                for (const file of (property as any).files || []) {
+                    let outputPath: string | null = null;
+                    const attachmentId = `${page.id}:${key}:${file.name}`;
+                    try {
+                        let fileUrl, fileName;
+
+                        if (file.type === "external") {
+                            fileUrl = file.external?.url;
+                            fileName =
+                                fileUrl.split("/").pop() ||
+                                `external_file_${Date.now()}`;
+                        } else if (file.type === "file") {
+                            fileUrl = file.file?.url;
+                            fileName =
+                                file.name ||
+                                `notion_file_${Date.now()}`;
                         }
-                    } else {
-                        content += `  []\n`;
-                    }
-                    break;
-
-                case "formula":
-                    let formulaType = (property as any).formula.type;
-                    let formulaValue = "";
-
-                    switch (formulaType) {
-                        case "number":
-                            formulaValue = (property as any).formula.number;
-                            content += `${safeKey(key)}: ${formulaValue}\n`;
-                            break;
-
-                        case "string":
-                            formulaValue = (property as any).formula.string;
-                            content += `${safeKey(key)}: ${formulaValue}\n`;
-                            break;
-                        case "boolean":
-                            // Handle boolean formula
-                            content += `${safeKey(key)}: ${
-                                (property as any).formula.boolean
-                            }\n`;
-                            break;
-
-                        default:
+
+                        if (!fileUrl) {
                             console.warn(
-                                `Unknown formula type: ${formulaType}`
+                                `No URL found for file: ${fileName}`
                             );
-                            break;
-                    }
-                    break;
-                case "created_time":
-                    if ((property as any).created_time) {
-                        let createdDate = moment
-                            .utc((property as any).created_time)
-                            .toISOString();
-                        content += `${safeKey(key)}: ${createdDate}\n`;
-                    } else {
-                        content += `${safeKey(key)}: \n`;
-                    }
-                    break;
-                case "relation":
-                    if ((property as any).relation && (property as any).relation.length) {
-                        const requestHeaders = {
-                            Authorization: `Bearer ${apiKey}`,
-                            "Notion-Version": "2022-06-28",
-                            "Content-Type": "application/json",
-                        };
-
-                        let relatedNames: string[] = [];
-                        for (const rel of (property as any).relation) {
-                            const pageId = rel.id;
-                            const response = await request({
-                                url: `https://api.notion.com/v1/pages/${pageId}`,
-                                method: "GET",
-                                headers: requestHeaders,
-                            });
-                            const pageData = JSON.parse(response);
-                            const pageName =
-                                pageData.properties.Name.title[0].plain_text;
-                            relatedNames.push(pageName);
+                            continue;
                         }
 
-                        // Semantic Linking part
-                        if (createSemanticLinking) {
-                            const safeKeyWithUnderscores = safeKey(key).replace(
-                                / /g,
-                                "_"
-                            );
-                            const semanticLink = `${safeKeyWithUnderscores}:: ${relatedNames
-                                .map((name) => `[[${name}]]`)
-                                .join(", ")}\n`;
-                            relationSemanticLinks.push(semanticLink);
+                        const fileExtension = getFileExtension(fileUrl);
+                        const safeFileName = sanitizeTitle(fileName);
+                        outputPath = path.join(
+                            attachmentPath,
+                            `${safeFileName}${
+                                fileExtension ? "." + fileExtension : ""
+                            }`
+                        );
+
+                        if (preview) {
+                            preview.attachments.push({pageTitle: title, url: fileUrl, targetPath: outputPath});
+                            links.push(`[[${path.basename(outputPath)}]]`);
+                            continue;
                         }
-
-                        if (createRelationContentPage) {
-                            // Create relation in YAML list format - ONLY add to relationLinks, not to content directly
-                            relationLinks.push(`${safeKey(key)}:\n${relatedNames
-                                .map((name) => `  - [[${name}]]`)
-                                .join("\n")}\n`);
+                        tracker && tracker.addItem(attachmentId, page.id, "attachment", "file");
+                        await downloadFile(
+                            fileUrl,
+                            outputPath,
+                            app
+                        );
+                        tracker && tracker.markItemComplete(attachmentId, true);
+                        run.stats.downloadedAttachments++;
+                        links.push(`[[${path.basename(outputPath)}]]`);
+                        logMessage(`Downloaded file: ${fileName}`);
+                    } catch (error) {
+                        const errorMsg = `Failed to download file: ${error.message}`;
+                        console.error(errorMsg);
+                        logMessage(errorMsg);
+                        if (outputPath) {
+                            tracker && tracker.markItemComplete(attachmentId, false, error.message);
+                            // Keep the link so it resolves once the download is retried
+                            recordFailure(run, {
+                                type: "attachment",
+                                pageId: page.id,
+                                title: title,
+                                propertyName: key,
+                                fileName: file.name,
+                                targetPath: outputPath,
+                                error: error.message,
+                            });
+                            links.push(`[[${path.basename(outputPath)}]]`);
                         } else {
-                            // Create relation in YAML format directly in content
-                            content += `${safeKey(key)}:\n${relatedNames
-                                .map((name) => `  - ${name}`)
-                                .join("\n")}\n`;
+                            links.push(`Failed: ${file.name || "unnamed file"} (${error.message})`);
                         }
-                    } else {
-                        content += `${safeKey(key)}: \n`;
                     }
-                    break;
+                }
+                converted.set(targetKey, links);
+                break;
+            }
 
+            case "formula":
+                converted.set(targetKey, formulaValue((property as any).formula, settings.timezone));
+                break;
+            case "created_time":
+            case "last_edited_time": {
+                const timestamp = (property as any)[(property as any).type];
+                converted.set(targetKey, timestamp ? formatPropertyDate(timestamp, settings.timezone) : null);
+                break;
+            }
+            case "relation":
+                if ((property as any).relation && (property as any).relation.length) {
+                    const relatedNames: string[] = [];
+                    for (const rel of (property as any).relation) {
+                        // Pages that cannot be read are logged and left out, the rest of the page is still imported
+                        const pageName = await fetchPageTitle(rel.id, settings, run, logMessage);
+                        pageName && relatedNames.push(pageName);
+                    }
 
-                case "url":
-                    if ((property as any).url) {
-                        content += `${safeKey(key)}: ${(property as any).url}\n`;
-                    } else {
-                        content += `${safeKey(key)}: \n`;
+                    // Semantic Linking part
+                    if (createSemanticLinking) {
+                        const semanticLink = `${key.replace(/ /g, "_")}:: ${relatedNames
+                            .map((name) => `[[${name}]]`)
+                            .join(", ")}\n`;
+                        relationSemanticLinks.push(semanticLink);
                     }
-                    break;
-
-                case "rollup": {
-                    const rollupArray = (property as any).rollup
-                        ? (property as any).rollup.array
-                        : null; // Check if rollup is defined
-
-                    if (Array.isArray(rollupArray)) {
-                        rollupArray.forEach((rollupItem) => {
-                            switch (rollupItem.type) {
-                                case "formula":
-                                    switch (rollupItem.formula.type) {
-                                        case "string":
-                                            // Handle string formula inside rollup
-                                            content += `${safeKey(
-                                                key
-                                            )}: ${safeValue(
-                                                (rollupItem as any).formula.string
-                                            )}\n`;
-                                            break;
-                                        case "boolean":
-                                            // Handle boolean formula
-                                            content += `${safeKey(key)}: ${
-                                                (rollupItem as any).formula.boolean
-                                            }\n`;
-                                            break;
-                                        case "number":
-                                            if (
-                                                rollupItem.function ===
-                                                "percent_per_group"
-                                            ) {
-                                                const numberValue =
-                                                    (rollupItem as any).number;
-                                                content += `${safeKey(
-                                                    key
-                                                )}: ${numberValue}\n`;
-                                            }
-                                            break;
-
-                                        default:
-                                            // Handle other or unknown formula types inside rollup
-                                            break;
-                                    }
-                                    break;
-                            }
-                        });
+
+                    if (createRelationContentPage) {
+                        // Create relation in YAML list format - ONLY add to relationLinks, not to content directly
+                        relationLinks.push(`${key}:\n${relatedNames
+                            .map((name) => `  - [[${name}]]`)
+                            .join("\n")}\n`);
                     } else {
-                        content += `${safeKey(key)}: null\n`; // Handle case when rollupArray is not defined
+                        converted.set(targetKey, relatedNames);
                     }
+                } else {
+                    converted.set(targetKey, null);
                 }
-                    break;
-
-                case "title":
-                    if ((property as any).title && (property as any).title[0]) {
-                        const keyWithUnderscores =
-                            (property as any).title[0].plain_text.replace(/ /g, "_");
-                        const finalKey = safeKey(keyWithUnderscores);
-                        pageTitle = finalKey;
-                        content += `Alias: ${finalKey}\n`;
-                    } else {
-                        content += `Alias: \n`;
-                    }
-                    break;
+                break;
 
-                default:
-                    break;
+            case "url":
+            case "email":
+            case "phone_number":
+                converted.set(targetKey, (property as any)[(property as any).type] || null);
+                break;
+
+            case "rollup": {
+                const rollup = (property as any).rollup;
+                if (rollup && rollup.type === "incomplete") {
+                    logMessage(`The rollup "${key}" of ${title} is incomplete in Notion and is left empty.`);
+                }
+                converted.set(targetKey, await rollupValue(rollup, settings, run, logMessage));
+                break;
             }
-        }
-        content += `---\n`;
-        // Only add one type of relation formatting based on settings
-        if (createSemanticLinking && relationSemanticLinks.length > 0) {
-            content += relationSemanticLinks;
-        } else if (relationLinks.length > 0) {
-            content += relationLinks;
+
+            case "people":
+                converted.set(targetKey, ((property as any).people || []).map(userName));
+                break;
+            case "created_by":
+            case "last_edited_by": {
+                const user = (property as any)[(property as any).type];
+                converted.set(targetKey, user ? userName(user) : null);
+                break;
+            }
+            case "unique_id": {
+                // Written like Notion shows it, e.g. "TASK-42", or as a plain number without a prefix
+                const uniqueId = (property as any).unique_id;
+                if (uniqueId && uniqueId.number !== null && uniqueId.number !== undefined) {
+                    converted.set(targetKey, uniqueId.prefix ? `${uniqueId.prefix}-${uniqueId.number}` : uniqueId.number);
+                } else {
+                    converted.set(targetKey, null);
+                }
+                break;
+            }
+            case "verification": {
+                // "verified", "unverified" or "expired"
+                const verification = (property as any).verification;
+                converted.set(targetKey, verification && verification.state ? verification.state : null);
+                break;
+            }
+            case "button":
+                // Buttons run actions in Notion and have no value to keep
+                if (preview) {
+                    preview.droppedProperties[key] = "buttons have no value";
+                }
+                break;
+
+            case "title":
+                if ((property as any).title && (property as any).title[0]) {
+                    const plainTitle = richTextToPlainText((property as any).title);
+                    // Attachments of the page are named after it, so only characters safe in file names are kept
+                    pageTitle = sanitizeTitle(plainTitle).replace(/ /g, "_");
+                    converted.set(targetKey, plainTitle.replace(/ /g, "_"));
+                } else {
+                    converted.set(targetKey, null);
+                }
+                break;
+
+            default:
+                recordUnsupportedProperty(run, (property as any).type, key, logMessage);
+                if (preview) {
+                    preview.droppedProperties[key] = `unsupported type "${(property as any).type}"`;
+                }
+                break;
         }
 
-        if (importPageContent) {
-            try {
-                await extractContentFromPage(
-                    page.id,
-                    pageTitle,
-                    apiKey,
-                    attachmentPath,
-                    vaultPath,
-                    subpagesPath,
-                    logMessage,
-                    importControl,
-                    app,
-                    importSubpages
-                ).then((result) => (content += result || ""));
-            } catch (error) {
-                console.error("Error in extractContentFromPage:", error);
+        if (mapping.toTags && TAG_PROPERTY_TYPES.includes(propertyType)) {
+            for (const value of converted.values()) {
+                const options = Array.isArray(value) ? value : value === null ? [] : [value];
+                tags.push(...options.map((option) => toTag(option, mapping.tagPrefix)).filter(Boolean));
+            }
+            continue;
+        }
+        for (const [convertedKey, value] of converted) {
+            const mappedValue = convertPropertyValue(value, mapping.type, settings.timezone);
+            if (mapping.placement === "inline") {
+                inlineFields += renderInlineField(convertedKey, mappedValue);
+            } else if (mapping.placement === "body") {
+                bodyProperties += renderBodyProperty(convertedKey, mappedValue);
+            } else {
+                properties.set(convertedKey, mappedValue);
             }
         }
+    }
+    if (tags.length) {
+        // A property written as "tags" or "Tags" is merged in, with its values turned into valid tags too
+        const tagsKey = Array.from(properties.keys()).find((name) => name.toLowerCase() === "tags");
+        const existingTags = tagsKey ? properties.get(tagsKey) : null;
+        const existingValues = Array.isArray(existingTags) ? existingTags : existingTags === null ? [] : [existingTags];
+        const allTags = [...existingValues.map((value) => toTag(value)).filter(Boolean), ...tags];
+        tagsKey && properties.delete(tagsKey);
+        properties.set("tags", Array.from(new Set(allTags)));
+    }
+    properties.set("notion_id", page.id);
+    if (page.url) {
+        properties.set("notion_url", page.url);
+    }
+    let content = serializeFrontmatter(properties);
+    // Only add one type of relation formatting based on settings
+    if (createSemanticLinking && relationSemanticLinks.length > 0) {
+        content += relationSemanticLinks;
+    } else if (relationLinks.length > 0) {
+        content += relationLinks;
+    }
+    if (inlineFields) {
+        content += `${inlineFields}\n`;
+    }
+    content += bodyProperties;
+
+    // Page content is not needed when only the frontmatter of an existing note is updated
+    if (importPageContent && !(existingPath && conflictPolicy === "frontmatter")) {
+        try {
+            await extractContentFromPage(
+                page.id,
+                pageTitle,
+                settings,
+                app,
+                importControl,
+                logMessage,
+                run
+            ).then((result) => (content += result || ""));
+        } catch (error) {
+            console.error("Error in extractContentFromPage:", error);
+            logMessage(`Failed to import the content of ${title}: ${error.message}`);
+            tracker && tracker.markItemComplete(page.id, false, error.message);
+            recordFailure(run, {
+                type: "page",
+                pageId: page.id,
+                title: title,
+                error: error.message,
+            });
+        }
+    }
+
+    return {page, title, filePath, existingPath, content};
+}
+
+/**
+ * Writes a rendered note and remembers where it was written
+ */
+function writeMarkdownFile(note: RenderedNote, settings: NotionMigrationSettings, app: any, run: MigrationRun): Promise<void> {
+    const {syncState, checkpoint, noteIndex, tracker} = run;
+    const vaultPath = app.vault.adapter.basePath;
+    const {page} = note;
+
+    return writeFilePromise(
+        `${vaultPath}/${note.filePath}`,
+        note.content,
+        note.existingPath ? settings.conflictPolicy : undefined
+    ).then((writtenPath) => {
+        const notePath = toVaultPath(writtenPath, vaultPath);
+        noteIndex.set(normalizeNotionId(page.id), notePath);
+        if (syncState) {
+            recordSyncedPage(syncState, page, notePath);
+        }
+        assignNotePath(run, page.id, notePath);
+        recordWrittenNote(run, notePath, !!note.existingPath);
+        checkpoint && checkpoint.writtenPageIds.push(page.id);
+        tracker && tracker.markItemComplete(page.id, true);
+    });
+}
+
+/**
+ * Creates markdown files from Notion data.
+ * In a dry run the notes are only rendered and listed in the run's preview.
+ * Rows of an inline database ignore a pause, since they belong to the page being imported.
+ */
+export async function createMarkdownFiles(
+    allPages: any[],
+    settings: NotionMigrationSettings,
+    app: any,
+    importControl: ImportControl,
+    logMessage: Function,
+    run: MigrationRun,
+    ignorePause = false
+) {
+    const promises: Promise<any>[] = [];
+
+    // Initial check if import should proceed
+    if (!importControl || !importControl.isImporting) {
+        logMessage("Import not active or was halted.");
+        return;
+    }
+
+    for (const page of allPages) {
+        if (!importControl.isImporting) {
+            logMessage(
+                "Import halted by user. Finishing remaining subpages and files..."
+            );
+            break;
+        }
+        // A pause takes effect between pages, so the page before it is written in full
+        if (importControl.isPaused && !ignorePause) {
+            logMessage("Import paused. Finishing the files of the current page...");
+            break;
+        }
+        const note = await renderMarkdownFile(page, settings, app, importControl, logMessage, run);
+        if (!note) {
+            continue;
+        }
+
+        if (run.preview) {
+            logMessage(note.existingPath ? `Would update: ${note.title}` : `Would create: ${note.title}`);
+            run.preview.files.push({path: note.filePath, action: note.existingPath ? "update" : "create"});
+            run.tracker && run.tracker.markItemComplete(page.id, true);
+            continue;
+        }
 
         // Add feedback for current file
-        logMessage(`Importing: ${title}`);
+        logMessage(note.existingPath ? `Updating: ${note.title}` : `Importing: ${note.title}`);
 
         if (!importControl.forceStop) {
-            promises.push(
-                writeFilePromise(
-                    `${vaultPath}/${folderName}/${title}.md`,
-                    content
-                )
-            );
+            promises.push(writeMarkdownFile(note, settings, app, run));
         }
     }
     // Wait for all file writes to complete if we should continue
     if (importControl.isImporting && !importControl.forceStop) {
         await Promise.all(promises);
-
-        // Signal completion only if we're still importing
-        if (importControl.isImporting) {
-            logMessage("Migration completed automatically!");
-            importControl.isImporting = false;
-        }
     }
 }
@@ -0,0 +1,167 @@
+import { MigrationRun } from "../interfaces/NotionTypes";
+import { NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { notionRequest } from "./notionClient";
+import { normalizeNotionId } from "./noteIndex";
+import { parseNotionUrl, renderRichText } from "./richText";
+
+// Blocks nested deeper than this below their page are not looked up
+const MAX_BLOCK_DEPTH = 10;
+
+// A Markdown link to Notion, as rendered for pages that had no note yet
+const NOTION_LINK_REGEX = /(!?)\[([^\]]*)\]\((https:\/\/www\.notion\.so\/[^)\s]+)\)/g;
+
+/**
+ * Returns the note name of a vault path
+ */
+function noteName(notePath: string): string {
+    return notePath.split("/").pop().replace(/\.md$/, "");
+}
+
+/**
+ * Returns the name of the note a page or database was imported to, or null when it has none yet.
+ * Notes are found by their notion_id, so the name is the one the note was actually written with.
+ */
+export function findPageNoteName(pageId: string, run: MigrationRun): string | null {
+    const notePath = run.noteIndex.get(normalizeNotionId(pageId));
+    return notePath ? noteName(notePath) : null;
+}
+
+/**
+ * Works out the note a block is imported to, by following its parents up to the page it is on.
+ * Returns null when that page is not part of the import.
+ */
+export async function findBlockNoteName(
+    blockId: string,
+    settings: NotionMigrationSettings,
+    run: MigrationRun | null,
+    logMessage: Function
+): Promise<string | null> {
+    if (!run) {
+        return null;
+    }
+    let parentId = blockId;
+    try {
+        for (let depth = 0; depth < MAX_BLOCK_DEPTH; depth++) {
+            const block = await notionRequest(settings.apiKey, `/blocks/${parentId}`, "GET", undefined, logMessage);
+            if (block.parent.type === "page_id") {
+                return findPageNoteName(block.parent.page_id, run);
+            }
+            if (block.parent.type !== "block_id") {
+                return null;
+            }
+            parentId = block.parent.block_id;
+        }
+    } catch (error) {
+        logMessage(`Could not look up the page of block ${blockId}: ${error.message}`);
+    }
+    return null;
+}
+
+/**
+ * Renders a link_to_page block as a wikilink to the note of the page, or as a link to Notion
+ * when the page or database was not imported
+ */
+export async function renderLinkToPage(
+    linkToPage: any,
+    settings: NotionMigrationSettings,
+    run: MigrationRun | null,
+    logMessage: Function
+): Promise<string> {
+    const id = linkToPage.type === "database_id" ? linkToPage.database_id : linkToPage.page_id;
+    if (!id) {
+        return "";
+    }
+    // Databases have no note of their own unless one with their ID exists in the vault
+    const target = run ? findPageNoteName(id, run) : null;
+    const url = `https://www.notion.so/${normalizeNotionId(id)}`;
+    return target ? `[[${target}]]` : `[${url}](${url})`;
+}
+
+/**
+ * Finds the note names of the pages and databases mentioned or linked to in rich text
+ */
+export function resolveMentionLinks(richText: any[] | null | undefined, run: MigrationRun | null): Map<string, string> {
+    const links = new Map<string, string>();
+    if (!run || !richText) {
+        return links;
+    }
+
+    for (const element of richText) {
+        if (element.type === "text") {
+            const target = parseNotionUrl(element.href);
+            const noteName = target ? findPageNoteName(target.pageId, run) : null;
+            if (noteName) {
+                links.set(target.pageId, noteName);
+                // The linked block gets an anchor, when it is rendered or at the end of the run
+                if (target.blockId && !run.linkedBlocks.has(target.blockId)) {
+                    run.linkedBlocks.set(target.blockId, {pageId: target.pageId, anchored: false});
+                }
+            }
+            continue;
+        }
+        if (element.type !== "mention" || !element.mention) {
+            continue;
+        }
+        const {mention} = element;
+        if (mention.type === "page" || mention.type === "database") {
+            // Databases have no note of their own unless one with their ID exists in the vault
+            const id = mention.type === "page" ? mention.page.id : mention.database.id;
+            const target = findPageNoteName(id, run);
+            target && links.set(normalizeNotionId(id), target);
+        }
+    }
+
+    return links;
+}
+
+/**
+ * Renders rich text to Markdown with mentions linked to the notes they were imported to
+ * and dates formatted as configured
+ */
+export async function renderRichTextWithMentions(
+    richText: any[] | null | undefined,
+    settings: NotionMigrationSettings,
+    run: MigrationRun | null,
+    logMessage: Function
+): Promise<string> {
+    const mentionLinks = resolveMentionLinks(richText, run);
+    return renderRichText(richText, {
+        mentionLinks,
+        dateMentionFormat: settings.dateMentionFormat,
+        dateMentionStyle: settings.dateMentionStyle,
+        timezone: settings.timezone,
+    });
+}
+
+/**
+ * Turns the links to Notion in the notes written in this run into wikilinks, for pages whose notes
+ * were only written after the link was rendered. Links to pages that were not imported stay links to Notion.
+ */
+export async function linkImportedPages(app: any, run: MigrationRun, logMessage: Function) {
+    const notePaths = new Set([...run.stats.createdNotes, ...run.stats.updatedNotes]);
+    for (const notePath of notePaths) {
+        try {
+            const noteContent: string = await app.vault.adapter.read(notePath);
+            const linkedContent = noteContent.replace(NOTION_LINK_REGEX, (link, embed, text, href) => {
+                const target = embed ? null : parseNotionUrl(href);
+                const name = target ? findPageNoteName(target.pageId, run) : null;
+                if (!name) {
+                    return link;
+                }
+                if (target.blockId) {
+                    // The linked block gets its anchor at the end of the run
+                    if (!run.linkedBlocks.has(target.blockId)) {
+                        run.linkedBlocks.set(target.blockId, {pageId: target.pageId, anchored: false});
+                    }
+                    return `[[${name}#^${target.blockId}|${text}]]`;
+                }
+                return text === name || text === href ? `[[${name}]]` : `[[${name}|${text}]]`;
+            });
+            if (linkedContent !== noteContent) {
+                await app.vault.adapter.write(notePath, linkedContent);
+            }
+        } catch (error) {
+            logMessage(`Failed to link imported pages in ${notePath}: ${error.message}`);
+        }
+    }
+}
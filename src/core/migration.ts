@@ -0,0 +1,377 @@
+import { ImportControl, MigrationRun } from "../interfaces/NotionTypes";
+import { MigrationCheckpoint, MigrationFailure, NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { extractContentFromPage, fetchBlockChildren, getDatabaseName, queryDatabase, renderBlocks, subpageFrontmatter } from "./notionHandling";
+import { createMarkdownFiles } from "./markdownCreation";
+import { notionRequest } from "./notionClient";
+import { buildDatabaseQuery } from "./queryBuilder";
+import { buildSyncQuery, completeSync, getDatabaseSyncState } from "./syncState";
+import { buildNotionIdIndex, normalizeNotionId } from "./noteIndex";
+import {
+    describeFailure,
+    fetchAttachmentUrl,
+    recordFailure,
+    replaceFailedBlockMarker
+} from "./failures";
+import { downloadFile, writeFilePromise } from "../utils/fileUtils";
+import { ImportTracker, TrackedItemType } from "./importTracker";
+import { createMigrationStats, writeMigrationReport } from "./migrationReport";
+import { anchorLinkedBlocks } from "./blockLinks";
+import { linkImportedPages } from "./mentions";
+
+export type MigrationResult = "completed" | "paused" | "stopped";
+
+/**
+ * Checks whether a paused migration of the selected database can be resumed
+ */
+export function hasResumableCheckpoint(settings: NotionMigrationSettings): boolean {
+    return !!settings.checkpoint && settings.checkpoint.databaseId === settings.databaseId;
+}
+
+/**
+ * Creates a checkpoint for a new migration of the selected database
+ */
+function createCheckpoint(settings: NotionMigrationSettings): MigrationCheckpoint {
+    return {
+        databaseId: settings.databaseId,
+        query: buildDatabaseQuery(
+            settings.queryFilters,
+            settings.queryFilterMatch,
+            settings.querySorts
+        ),
+        startCursor: null,
+        writtenPageIds: [],
+        startedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Maps a failure to the progress counter it is shown under; nested blocks count towards their page
+ */
+function trackedItemType(failureType: MigrationFailure["type"]): TrackedItemType {
+    return failureType === "block" ? "page" : failureType;
+}
+
+/**
+ * Migrates the selected database batch by batch.
+ * After every batch the query cursor is saved in the checkpoint, together with the pages
+ * already written from the current batch, so a paused migration can resume where it left off.
+ */
+export async function migrateDatabase(
+    settings: NotionMigrationSettings,
+    app: any,
+    importControl: ImportControl,
+    logMessage: Function,
+    saveSettings: () => Promise<void>,
+    tracker: ImportTracker | null = null
+): Promise<MigrationResult> {
+    const startedAt = new Date();
+    const syncState = getDatabaseSyncState(settings.syncState, settings.databaseId);
+
+    let isResuming = hasResumableCheckpoint(settings);
+    if (isResuming) {
+        logMessage(`Resuming paused migration started at ${settings.checkpoint.startedAt}...`);
+    } else {
+        settings.checkpoint = createCheckpoint(settings);
+        settings.failures = [];
+    }
+    const checkpoint = settings.checkpoint;
+    await saveSettings();
+
+    const fetchQuery = settings.syncMode
+        ? buildSyncQuery(checkpoint.query, syncState)
+        : checkpoint.query;
+
+    if (fetchQuery !== checkpoint.query) {
+        logMessage(`Fetching pages edited in Notion since ${syncState.lastSyncTime}...`);
+    } else if (checkpoint.query.filter || checkpoint.query.sorts) {
+        logMessage("Fetching filtered data from Notion...");
+    } else {
+        logMessage("Fetching data from Notion...");
+    }
+
+    const run: MigrationRun = {
+        syncState,
+        checkpoint,
+        noteIndex: buildNotionIdIndex(app),
+        pageTitles: new Map(),
+        linkedBlocks: new Map(),
+        childDatabases: new Map(),
+        failures: settings.failures,
+        tracker,
+        unsupportedBlocks: {},
+        unsupportedProperties: {},
+        preview: null,
+        stats: createMigrationStats(),
+    };
+    let fetchedCount = 0;
+    let hasMore = true;
+    let result: MigrationResult = "completed";
+
+    while (hasMore) {
+        let data;
+        try {
+            data = await queryDatabase(
+                settings.databaseId,
+                settings.apiKey,
+                fetchQuery,
+                checkpoint.startCursor,
+                logMessage
+            );
+        } catch (error) {
+            // Notion may reject a cursor saved long ago, so restart from the first batch
+            if (!isResuming || !checkpoint.startCursor) {
+                throw error;
+            }
+            logMessage("The saved position is no longer valid. Restarting from the first page...");
+            checkpoint.startCursor = null;
+            data = await queryDatabase(settings.databaseId, settings.apiKey, fetchQuery, null, logMessage);
+        }
+        isResuming = false;
+
+        fetchedCount += data.results.length;
+        run.stats.fetchedPages = fetchedCount;
+        logMessage(`${data.results.length} items fetched from Notion (${fetchedCount} so far).`);
+
+        const pages = data.results.filter((page: any) => !checkpoint.writtenPageIds.includes(page.id));
+        if (tracker) {
+            pages.forEach((page: any) => tracker.addItem(page.id, settings.databaseId, "page"));
+        }
+        await createMarkdownFiles(pages, settings, app, importControl, logMessage, run);
+
+        if (importControl.forceStop || !importControl.isImporting || importControl.isPaused) {
+            if (!importControl.isPaused) {
+                settings.checkpoint = null;
+            }
+            await saveSettings();
+            result = importControl.isPaused ? "paused" : "stopped";
+            break;
+        }
+
+        // Pages before the new cursor are never fetched again, so their IDs can be dropped
+        checkpoint.startCursor = data.next_cursor;
+        checkpoint.writtenPageIds = [];
+        await saveSettings();
+
+        hasMore = data.has_more;
+    }
+
+    await linkImportedPages(app, run, logMessage);
+    await anchorLinkedBlocks(settings, app, run, logMessage);
+
+    if (result === "completed") {
+        // Only a full run moves the sync point forward
+        completeSync(syncState, checkpoint.query, new Date(checkpoint.startedAt));
+        settings.checkpoint = null;
+        await saveSettings();
+    }
+
+    // The report is a convenience, so failing to write it does not fail the migration
+    try {
+        const reportPath = await writeMigrationReport(settings, app, run, {
+            databaseName: await getDatabaseName(settings.apiKey, settings.databaseId, logMessage),
+            startedAt,
+            endedAt: new Date(),
+            result,
+        });
+        logMessage(`Migration report written to ${reportPath}`);
+    } catch (error) {
+        logMessage(`Failed to write the migration report: ${error.message}`);
+    }
+
+    if (result === "completed" && settings.failures.length) {
+        logMessage(`${settings.failures.length} items failed. Click "Retry Failures" to try only those again.`);
+    }
+
+    return result;
+}
+
+/**
+ * Dry run: fetches the pages the migration would import and renders their notes
+ * without writing notes or downloading attachments. The returned run holds the preview,
+ * the unsupported block types and the items that failed to render.
+ */
+export async function previewMigration(
+    settings: NotionMigrationSettings,
+    app: any,
+    importControl: ImportControl,
+    logMessage: Function,
+    tracker: ImportTracker | null = null
+): Promise<MigrationRun> {
+    const syncState = getDatabaseSyncState(settings.syncState, settings.databaseId);
+    const query = buildDatabaseQuery(settings.queryFilters, settings.queryFilterMatch, settings.querySorts);
+    const fetchQuery = settings.syncMode ? buildSyncQuery(query, syncState) : query;
+
+    const run: MigrationRun = {
+        syncState,
+        checkpoint: null,
+        noteIndex: buildNotionIdIndex(app),
+        pageTitles: new Map(),
+        linkedBlocks: new Map(),
+        childDatabases: new Map(),
+        failures: [],
+        tracker,
+        unsupportedBlocks: {},
+        unsupportedProperties: {},
+        preview: {
+            files: [],
+            collisions: [],
+            attachments: [],
+            droppedProperties: {},
+            plannedPaths: new Set<string>(),
+        },
+        stats: createMigrationStats(),
+    };
+    logMessage("Dry run: nothing will be written to the vault.");
+    let startCursor: string | null = null;
+    let hasMore = true;
+
+    while (hasMore && !importControl.forceStop) {
+        const data = await queryDatabase(settings.databaseId, settings.apiKey, fetchQuery, startCursor, logMessage);
+        logMessage(`${data.results.length} items fetched from Notion.`);
+
+        if (tracker) {
+            data.results.forEach((page: any) => tracker.addItem(page.id, settings.databaseId, "page"));
+        }
+        await createMarkdownFiles(data.results, settings, app, importControl, logMessage, run);
+
+        startCursor = data.next_cursor;
+        hasMore = data.has_more && importControl.isImporting && !importControl.isPaused;
+    }
+
+    return run;
+}
+
+/**
+ * Reprocesses only the items that failed in the last run and patches the notes already written.
+ * Failed pages are imported again, failed nested blocks replace their marker in the note,
+ * and failed attachments are downloaded to the path the note already links to.
+ * Returns the number of items that still fail.
+ */
+export async function retryFailures(
+    settings: NotionMigrationSettings,
+    app: any,
+    importControl: ImportControl,
+    logMessage: Function,
+    saveSettings: () => Promise<void>,
+    tracker: ImportTracker | null = null
+): Promise<number> {
+    const vaultPath = app.vault.adapter.basePath;
+    const pending = settings.failures;
+    settings.failures = [];
+
+    const run: MigrationRun = {
+        syncState: getDatabaseSyncState(settings.syncState, settings.databaseId),
+        checkpoint: null,
+        noteIndex: buildNotionIdIndex(app),
+        pageTitles: new Map(),
+        linkedBlocks: new Map(),
+        childDatabases: new Map(),
+        failures: settings.failures,
+        tracker,
+        unsupportedBlocks: {},
+        unsupportedProperties: {},
+        preview: null,
+        stats: createMigrationStats(),
+    };
+    // A failed page was written incompletely, so it is always rewritten in full
+    const retrySettings: NotionMigrationSettings = {...settings, conflictPolicy: "overwrite", syncMode: false};
+    const reimportedPageIds = new Set<string>();
+
+    logMessage(`Retrying ${pending.length} failed items...`);
+
+    for (const [index, failure] of pending.entries()) {
+        if (importControl.forceStop || importControl.isPaused) {
+            // Keep what was not retried for the next attempt
+            settings.failures.push(...pending.slice(index));
+            break;
+        }
+        // Re-importing a page also retries its blocks and attachments
+        if (reimportedPageIds.has(failure.pageId)) {
+            continue;
+        }
+
+        const itemId = `retry:${index}`;
+        if (tracker) {
+            tracker.addItem(itemId, failure.pageId, trackedItemType(failure.type));
+            tracker.setCurrentPage(failure.title);
+        }
+        // Re-rendering records its own failures, e.g. for content that still cannot be read
+        const failureCount = run.failures.length;
+        try {
+            switch (failure.type) {
+                case "page": {
+                    const page = await notionRequest(settings.apiKey, `/pages/${failure.pageId}`, "GET", undefined, logMessage);
+                    await createMarkdownFiles([page], retrySettings, app, importControl, logMessage, run);
+                    reimportedPageIds.add(failure.pageId);
+                    break;
+                }
+                case "subpage": {
+                    const content = await extractContentFromPage(
+                        failure.pageId,
+                        failure.title,
+                        retrySettings,
+                        app,
+                        importControl,
+                        logMessage,
+                        run
+                    );
+                    await writeFilePromise(
+                        `${vaultPath}/${failure.notePath}`,
+                        subpageFrontmatter(failure.pageId) + (content || ""),
+                        "overwrite"
+                    );
+                    reimportedPageIds.add(failure.pageId);
+                    break;
+                }
+                case "block": {
+                    const notePath = failure.notePath || run.noteIndex.get(normalizeNotionId(failure.pageId));
+                    if (!notePath || !(await app.vault.adapter.exists(notePath))) {
+                        throw new Error("The note to patch was not found");
+                    }
+                    // A table is rendered from its rows as a whole, so its marker is replaced by the full table
+                    const blocks = failure.blockType === "table"
+                        ? [await notionRequest(settings.apiKey, `/blocks/${failure.blockId}`, "GET", undefined, logMessage)]
+                        : await fetchBlockChildren(failure.blockId, settings.apiKey, logMessage);
+                    const renderedContent = await renderBlocks(
+                        blocks,
+                        failure.pageId,
+                        failure.title,
+                        retrySettings,
+                        app,
+                        importControl,
+                        logMessage,
+                        run
+                    );
+                    const noteContent = await app.vault.adapter.read(notePath);
+                    await app.vault.adapter.write(
+                        notePath,
+                        replaceFailedBlockMarker(noteContent, failure.blockId, renderedContent)
+                    );
+                    break;
+                }
+                case "attachment": {
+                    const url = await fetchAttachmentUrl(failure, settings.apiKey, logMessage);
+                    await downloadFile(url, failure.targetPath, app);
+                    break;
+                }
+            }
+            if (run.failures.length > failureCount) {
+                const {error} = run.failures[run.failures.length - 1];
+                logMessage(`Still failing: ${describeFailure(failure)} (${error})`);
+                tracker && tracker.markItemComplete(itemId, false, error);
+            } else {
+                logMessage(`Retried successfully: ${describeFailure(failure)}`);
+                tracker && tracker.markItemComplete(itemId, true);
+            }
+        } catch (error) {
+            logMessage(`Still failing: ${describeFailure(failure)} (${error.message})`);
+            tracker && tracker.markItemComplete(itemId, false, error.message);
+            recordFailure(run, {...failure, error: error.message});
+        }
+    }
+
+    await linkImportedPages(app, run, logMessage);
+    await anchorLinkedBlocks(settings, app, run, logMessage);
+    await saveSettings();
+    return settings.failures.length;
+}
@@ -0,0 +1,127 @@
+import * as path from "path";
+import { MigrationRun, MigrationStats } from "../interfaces/NotionTypes";
+import { NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { describeFailure } from "./failures";
+import { toVaultPath, writeFilePromise } from "../utils/fileUtils";
+import { formatDate } from "./dates";
+
+export interface MigrationReportInfo {
+    databaseName: string | null;
+    startedAt: Date;
+    endedAt: Date;
+    result: string;
+}
+
+/**
+ * Returns empty statistics for a new run
+ */
+export function createMigrationStats(): MigrationStats {
+    return {
+        fetchedPages: 0,
+        skippedPages: 0,
+        downloadedAttachments: 0,
+        createdNotes: [],
+        updatedNotes: [],
+    };
+}
+
+/**
+ * Counts a note written in this run, including subpages
+ */
+export function recordWrittenNote(run: MigrationRun | null, notePath: string, existed: boolean) {
+    if (!run) {
+        return;
+    }
+    const notes = existed ? run.stats.updatedNotes : run.stats.createdNotes;
+    if (!notes.includes(notePath)) {
+        notes.push(notePath);
+    }
+}
+
+/**
+ * Links to a note by its vault path, showing only its name
+ */
+function noteLink(notePath: string): string {
+    return `[[${notePath.replace(/\.md$/, "")}|${path.basename(notePath, ".md")}]]`;
+}
+
+/**
+ * Builds the Markdown content of the report note of a run
+ */
+export function buildMigrationReport(run: MigrationRun, info: MigrationReportInfo): string {
+    const {stats, failures, unsupportedBlocks, unsupportedProperties} = run;
+    const attachmentFailures = failures.filter((failure) => failure.type === "attachment").length;
+    const format = "YYYY-MM-DD HH:mm:ss";
+
+    let content = `# Notion migration report\n\n`;
+    content += `- Database: ${info.databaseName || "Unknown database"}\n`;
+    content += `- Result: ${info.result}\n`;
+    content += `- Started: ${formatDate(info.startedAt.toISOString(), format, "local")}\n`;
+    content += `- Ended: ${formatDate(info.endedAt.toISOString(), format, "local")}\n\n`;
+
+    content += `## Counts\n\n`;
+    content += `| Item | Count |\n| --- | --- |\n`;
+    content += `| Pages fetched | ${stats.fetchedPages} |\n`;
+    content += `| Notes created | ${stats.createdNotes.length} |\n`;
+    content += `| Notes updated | ${stats.updatedNotes.length} |\n`;
+    content += `| Pages skipped | ${stats.skippedPages} |\n`;
+    content += `| Attachments downloaded | ${stats.downloadedAttachments} |\n`;
+    content += `| Attachments failed | ${attachmentFailures} |\n`;
+    content += `| Failures | ${failures.length} |\n\n`;
+
+    content += `## Created notes\n\n`;
+    content += stats.createdNotes.length
+        ? stats.createdNotes.map((notePath) => `- ${noteLink(notePath)}`).join("\n") + "\n\n"
+        : "None\n\n";
+
+    if (stats.updatedNotes.length) {
+        content += `## Updated notes\n\n`;
+        content += stats.updatedNotes.map((notePath) => `- ${noteLink(notePath)}`).join("\n") + "\n\n";
+    }
+
+    content += `## Failures\n\n`;
+    content += failures.length
+        ? failures.map((failure) => {
+            const link = failure.notePath ? ` (${noteLink(failure.notePath)})` : "";
+            return `- ${describeFailure(failure)}${link}: ${failure.error}`;
+        }).join("\n") + "\n\n"
+        : "None\n\n";
+
+    content += `## Unsupported blocks\n\n`;
+    const blockTypes = Object.keys(unsupportedBlocks).sort();
+    if (!blockTypes.length) {
+        content += "None\n\n";
+    }
+    for (const blockType of blockTypes) {
+        content += `### ${blockType}\n\n`;
+        content += unsupportedBlocks[blockType].map((pageName) => `- ${pageName}`).join("\n") + "\n\n";
+    }
+
+    content += `## Unsupported properties\n\n`;
+    const propertyTypes = Object.keys(unsupportedProperties).sort();
+    content += propertyTypes.length
+        ? propertyTypes.map((propertyType) =>
+            `- ${propertyType}: ${unsupportedProperties[propertyType].join(", ")}`
+        ).join("\n") + "\n"
+        : "None\n";
+
+    return content;
+}
+
+/**
+ * Writes the report note of a run into the migration folder and returns its vault path
+ */
+export async function writeMigrationReport(
+    settings: NotionMigrationSettings,
+    app: any,
+    run: MigrationRun,
+    info: MigrationReportInfo
+): Promise<string> {
+    const vaultPath = app.vault.adapter.basePath;
+    const fileName = `Notion migration report ${formatDate(info.endedAt.toISOString(), "YYYY-MM-DD HH-mm-ss", "local")}.md`;
+    const writtenPath = await writeFilePromise(
+        `${vaultPath}/${settings.migrationPath}/${fileName}`,
+        buildMigrationReport(run, info)
+    );
+    return toVaultPath(writtenPath, vaultPath);
+}
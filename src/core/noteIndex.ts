@@ -0,0 +1,26 @@
+import { TFile } from "obsidian";
+
+/**
+ * Normalizes a Notion ID so dashed and undashed forms match
+ */
+export function normalizeNotionId(id: string): string {
+    return id.replace(/-/g, "").toLowerCase();
+}
+
+/**
+ * Builds an index from Notion page IDs to vault paths, using the notion_id
+ * frontmatter written by earlier imports. Notes are found even after being renamed or moved.
+ */
+export function buildNotionIdIndex(app: any): Map<string, string> {
+    const index = new Map<string, string>();
+
+    for (const file of app.vault.getMarkdownFiles() as TFile[]) {
+        const cache = app.metadataCache.getFileCache(file);
+        const notionId = cache && cache.frontmatter ? cache.frontmatter.notion_id : null;
+        if (notionId) {
+            index.set(normalizeNotionId(String(notionId)), file.path);
+        }
+    }
+
+    return index;
+}
@@ -0,0 +1,126 @@
+import { requestUrl, RequestUrlResponse } from "obsidian";
+
+const NOTION_API_URL = "https://api.notion.com/v1";
+export const NOTION_VERSION = "2022-06-28";
+
+// Notion allows an average of three requests per second per integration
+const MIN_REQUEST_INTERVAL_MS = 350;
+const MAX_RETRIES = 5;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+// Shared by every caller so parallel fetches still respect the rate limit
+let nextRequestSlot = 0;
+
+/**
+ * Waits until the next request slot is free
+ */
+async function waitForRequestSlot() {
+    const now = Date.now();
+    const slot = Math.max(now, nextRequestSlot);
+    nextRequestSlot = slot + MIN_REQUEST_INTERVAL_MS;
+
+    if (slot > now) {
+        await sleep(slot - now);
+    }
+}
+
+/**
+ * Checks whether a failed request is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+    return status === 429 || status === 409 || status >= 500;
+}
+
+/**
+ * Computes how long to wait before the next attempt.
+ * Honors the Retry-After header and falls back to exponential backoff with jitter.
+ */
+function getRetryDelay(attempt: number, response?: RequestUrlResponse): number {
+    if (response && response.headers) {
+        const headerName = Object.keys(response.headers)
+            .find((name) => name.toLowerCase() === "retry-after");
+        const retryAfter = headerName ? Number(response.headers[headerName]) : NaN;
+        if (!isNaN(retryAfter) && retryAfter >= 0) {
+            return retryAfter * 1000;
+        }
+    }
+
+    const backoff = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * Math.pow(2, attempt));
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
+
+/**
+ * Extracts a readable error message from a Notion error response
+ */
+function getErrorMessage(response: RequestUrlResponse): string {
+    try {
+        const data = JSON.parse(response.text);
+        if (data && data.message) {
+            return `Notion API error ${response.status}: ${data.message}`;
+        }
+    } catch (error) {
+        // Response body is not JSON, fall through to the generic message
+    }
+    return `Notion API error ${response.status}`;
+}
+
+/**
+ * Sends a request to the Notion API.
+ * Requests are throttled to stay within Notion's rate limit, and rate-limited
+ * or failed requests are retried with backoff before giving up.
+ */
+export async function notionRequest(
+    apiKey: string,
+    endpoint: string,
+    method = "GET",
+    body?: unknown,
+    logMessage?: Function
+): Promise<any> {
+    const requestHeaders = {
+        Authorization: `Bearer ${apiKey}`,
+        "Notion-Version": NOTION_VERSION,
+        "Content-Type": "application/json",
+    };
+
+    for (let attempt = 0; ; attempt++) {
+        await waitForRequestSlot();
+
+        let response: RequestUrlResponse | undefined;
+        let failureReason = "";
+
+        try {
+            response = await requestUrl({
+                url: `${NOTION_API_URL}${endpoint}`,
+                method: method,
+                headers: requestHeaders,
+                body: body !== undefined ? JSON.stringify(body) : undefined,
+                throw: false,
+            });
+        } catch (error) {
+            failureReason = `Network error: ${error.message}`;
+        }
+
+        if (response) {
+            if (response.status < 400) {
+                return JSON.parse(response.text);
+            }
+            if (!isRetryableStatus(response.status)) {
+                throw new Error(getErrorMessage(response));
+            }
+            failureReason = response.status === 429
+                ? "Rate limited by Notion"
+                : getErrorMessage(response);
+        }
+
+        if (attempt >= MAX_RETRIES) {
+            throw new Error(`${failureReason} (gave up after ${MAX_RETRIES} retries)`);
+        }
+
+        const delay = getRetryDelay(attempt, response);
+        logMessage && logMessage(
+            `${failureReason}. Retrying in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1}/${MAX_RETRIES})...`
+        );
+        await sleep(delay);
+    }
+}
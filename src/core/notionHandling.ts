@@ -1,35 +1,245 @@
-import { requestUrl } from "obsidian";
 import * as path from "path";
-import { downloadFile, getImageExtension, writeFilePromise } from "../utils/fileUtils";
-import { ImportControl } from "../interfaces/NotionTypes";
+import { downloadFile, generateUniqueTitle, getImageExtension, toVaultPath, writeFilePromise } from "../utils/fileUtils";
+import { ImportControl, MigrationRun } from "../interfaces/NotionTypes";
+import { ColumnLayout, ConflictPolicy, NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { notionRequest } from "./notionClient";
+import { assignNotePath, failedBlockMarker, recordFailure } from "./failures";
+import { recordWrittenNote } from "./migrationReport";
+import { richTextToPlainText } from "./richText";
+import { findBlockNoteName, renderLinkToPage, renderRichTextWithMentions } from "./mentions";
+import { normalizeNotionId } from "./noteIndex";
+import { importChildDatabase } from "./childDatabases";
+import { serializeFrontmatter } from "./frontmatter";
 
 /**
  * Helper function to safely add a file writing promise to the promises array
  */
-function safeAddWritePromise(promises: Array<Promise<any>>, filePath: string, content: string | null) {
+function safeAddWritePromise(
+    promises: Array<Promise<any>>,
+    filePath: string,
+    content: string | null,
+    conflictPolicy?: ConflictPolicy,
+    onWritten?: (writtenPath: string) => void
+) {
     if (content !== null) {
-        promises.push(writeFilePromise(filePath, content));
+        promises.push(writeFilePromise(filePath, content, conflictPolicy).then(onWritten));
     }
 }
 
 /**
- * Fetches the name of a Notion database
+ * Builds the frontmatter of a subpage note, with the notion_id it is found by in later runs
  */
-export async function getDatabaseName(apiKey: string, databaseId: string): Promise<string | null> {
-    const requestHeaders = {
-        Authorization: `Bearer ${apiKey}`,
-        "Notion-Version": "2022-06-28",
-        "Content-Type": "application/json",
-    };
+export function subpageFrontmatter(pageId: string): string {
+    return serializeFrontmatter(new Map([
+        ["notion_id", pageId],
+        ["notion_url", `https://www.notion.so/${normalizeNotionId(pageId)}`],
+    ]));
+}
 
+/**
+ * Downloads a file attached to a block. A failed download is recorded for a later retry
+ * instead of aborting the page, and the embed link is kept so it resolves once the retry succeeds.
+ */
+async function downloadBlockAttachment(
+    url: string,
+    targetPath: string,
+    block: any,
+    pageId: string,
+    pageName: string,
+    app: any,
+    logMessage: Function,
+    run: MigrationRun | null
+) {
+    if (run && run.preview) {
+        run.preview.attachments.push({pageTitle: pageName, url: url, targetPath: targetPath});
+        return;
+    }
+    const tracker = run ? run.tracker : null;
+    tracker && tracker.addItem(block.id, pageId, "attachment", block.type);
     try {
-        const response = await requestUrl({
-            url: `https://api.notion.com/v1/databases/${databaseId}`,
-            method: "GET",
-            headers: requestHeaders,
+        await downloadFile(url, targetPath, app);
+        tracker && tracker.markItemComplete(block.id, true);
+        run && run.stats.downloadedAttachments++;
+    } catch (error) {
+        logMessage(`Failed to download ${block.type} in ${pageName}: ${error.message}`);
+        tracker && tracker.markItemComplete(block.id, false, error.message);
+        recordFailure(run, {
+            type: "attachment",
+            pageId: pageId,
+            title: pageName,
+            blockId: block.id,
+            targetPath: targetPath,
+            error: error.message,
         });
-        
-        const data = JSON.parse(response.text);
+    }
+}
+
+/**
+ * Remembers a block type that has no converter and the page it appears in
+ */
+function recordUnsupportedBlock(run: MigrationRun | null, blockType: string, pageName: string) {
+    if (!run) {
+        return;
+    }
+    const pages = run.unsupportedBlocks[blockType] || (run.unsupportedBlocks[blockType] = []);
+    if (!pages.includes(pageName)) {
+        pages.push(pageName);
+    }
+}
+
+// Blocks whose children are nested one level deeper, like sub-lists
+const LIST_BLOCK_TYPES = ["bulleted_list_item", "numbered_list_item", "to_do"];
+
+// Four spaces nest under both "- " and "10. " items
+const LIST_INDENT = "    ";
+
+/**
+ * Checks whether a block is written as a callout or blockquote, so its children are quoted too
+ */
+function isQuotedBlock(block: any): boolean {
+    if (["toggle", "callout", "quote"].includes(block.type)) {
+        return true;
+    }
+    return block.type.startsWith("heading_") && !!block[block.type]?.is_toggleable;
+}
+
+/**
+ * Picks the Obsidian callout type of a Notion callout from its emoji icon, then its colour
+ */
+function getCalloutType(callout: any, settings: NotionMigrationSettings): string {
+    const {calloutTypes, defaultCalloutType} = settings;
+    const emoji = callout.icon && callout.icon.type === "emoji" ? callout.icon.emoji : null;
+
+    if (emoji && calloutTypes[emoji]) {
+        return calloutTypes[emoji];
+    }
+    if (callout.color && calloutTypes[callout.color]) {
+        return calloutTypes[callout.color];
+    }
+    return defaultCalloutType || "note";
+}
+
+/**
+ * Prefixes every line of nested content, e.g. with "> " inside toggles or with an indent
+ * below list items. Empty lines get no indent, so they do not end in trailing spaces.
+ */
+function prefixLines(text: string, prefix: string): string {
+    if (!text) {
+        return "";
+    }
+    const trimmedPrefix = prefix.trimEnd();
+    return text
+        .replace(/\n+$/, "")
+        .split("\n")
+        .map((line) => (line ? prefix + line : trimmedPrefix))
+        .join("\n") + "\n";
+}
+
+/**
+ * Returns the Obsidian block anchor of a Notion block
+ */
+function blockAnchor(blockId: string): string {
+    return normalizeNotionId(blockId);
+}
+
+/**
+ * Checks whether a block is written as lines of text that can end in a ^block-id anchor
+ */
+export function isAnchorableBlock(block: any): boolean {
+    if (["paragraph", ...LIST_BLOCK_TYPES].includes(block.type)) {
+        return true;
+    }
+    return block.type.startsWith("heading_") && !block[block.type]?.is_toggleable;
+}
+
+/**
+ * Adds a ^block-id anchor to the last line of a rendered block, so links to the block resolve
+ */
+function appendAnchor(renderedBlock: string, blockId: string): string {
+    return renderedBlock.replace(/\n*$/, (newlines) => ` ^${blockAnchor(blockId)}${newlines}`);
+}
+
+/**
+ * Renders the original of a synced block with a ^block-id anchor, so its copies can embed it.
+ * An anchor only covers the block before it, so several blocks are grouped in a callout first.
+ * Lists, quotes, callouts, tables and code blocks take the anchor on a line of its own after a blank line.
+ */
+function renderSyncedOriginal(childContent: string, childBlocks: any[], blockId: string): string {
+    if (!childContent.trim()) {
+        return "";
+    }
+    const anchor = `^${blockAnchor(blockId)}\n\n`;
+    if (childBlocks.length > 1) {
+        return `> [!synced]\n${prefixLines(childContent, "> ")}\n${anchor}`;
+    }
+    const block = childBlocks[0];
+    const isStructured = isQuotedBlock(block) || [...LIST_BLOCK_TYPES, "table", "code"].includes(block.type);
+    return `${childContent.replace(/\n+$/, "\n")}${isStructured ? "\n" : ""}${anchor}`;
+}
+
+/**
+ * Lays out rendered columns one after another, or side by side in a multi-column callout
+ */
+function renderColumns(columns: string[], layout: ColumnLayout): string {
+    if (layout !== "callout") {
+        return columns.join("");
+    }
+    const lines = ["> [!multi-column]"];
+    for (const column of columns) {
+        lines.push(">");
+        lines.push(">> [!blank]");
+        if (column.trim()) {
+            lines.push(prefixLines(column, ">> ").replace(/\n$/, ""));
+        }
+    }
+    return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Escapes a table cell so pipes and line breaks do not break the row
+ */
+function escapeTableCell(text: string): string {
+    return text
+        .replace(/\|/g, "\\|")
+        .replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Renders a Notion table and its table_row children as a GFM table.
+ * Markdown tables always have a header, so an empty one is added when the table has no column header,
+ * and row headers are shown in bold.
+ */
+async function renderTable(block: any, rows: any[], renderText: (richText: any[]) => Promise<string>): Promise<string> {
+    const {table_width: width, has_column_header: hasColumnHeader, has_row_header: hasRowHeader} = block.table;
+    const lines: string[] = [];
+
+    for (const [rowIndex, row] of rows.filter((child) => child.type === "table_row").entries()) {
+        const cells: string[] = [];
+        for (let columnIndex = 0; columnIndex < width; columnIndex++) {
+            let text = escapeTableCell(await renderText(row.table_row.cells[columnIndex] || []));
+            const isColumnHeader = hasColumnHeader && rowIndex === 0;
+            if (hasRowHeader && columnIndex === 0 && !isColumnHeader && text.trim()) {
+                text = `**${text.trim()}**`;
+            }
+            cells.push(text);
+        }
+        lines.push(`| ${cells.join(" | ")} |`);
+    }
+
+    if (!hasColumnHeader || !lines.length) {
+        lines.unshift(`| ${new Array(width).fill(" ").join(" | ")} |`);
+    }
+    lines.splice(1, 0, `| ${new Array(width).fill("---").join(" | ")} |`);
+
+    return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * Fetches the name of a Notion database
+ */
+export async function getDatabaseName(apiKey: string, databaseId: string, logMessage?: Function): Promise<string | null> {
+    try {
+        const data = await notionRequest(apiKey, `/databases/${databaseId}`, "GET", undefined, logMessage);
         return data.title[0].plain_text; // Extracting the database name from the response
     } catch (error) {
         console.error("Error fetching database name:", error);
@@ -38,30 +248,71 @@ export async function getDatabaseName(apiKey: string, databaseId: string): Promi
 }
 
 /**
- * Fetches data from a Notion database
+ * Fetches one batch of pages from a Notion database, starting at the given cursor
  */
-export async function fetchNotionData(databaseId: string, apiKey: string) {
-    const requestHeaders = {
-        Authorization: `Bearer ${apiKey}`,
-        "Notion-Version": "2022-06-28",
-        "Content-Type": "application/json",
-    };
+export async function queryDatabase(
+    databaseId: string,
+    apiKey: string,
+    query: { filter?: any; sorts?: any[] } = {},
+    startCursor: string | null = null,
+    logMessage?: Function
+) {
+    const requestBody = startCursor ? {...query, start_cursor: startCursor} : {...query};
 
+    return notionRequest(
+        apiKey,
+        `/databases/${databaseId}/query`,
+        "POST",
+        requestBody,
+        logMessage
+    );
+}
+
+/**
+ * Fetches data from a Notion database, optionally narrowed by a query filter and sorts
+ */
+export async function fetchNotionData(
+    databaseId: string,
+    apiKey: string,
+    logMessage?: Function,
+    query: { filter?: any; sorts?: any[] } = {}
+) {
     let results: any[] = [];
     let hasMore = true;
     let startCursor = null;
 
     while (hasMore) {
-        const requestBody = startCursor ? {start_cursor: startCursor} : {};
+        const data = await queryDatabase(databaseId, apiKey, query, startCursor, logMessage);
 
-        const response = await requestUrl({
-            url: `https://api.notion.com/v1/databases/${databaseId}/query`,
-            method: "POST",
-            headers: requestHeaders,
-            body: JSON.stringify(requestBody),
-        });
+        results.push(...data.results);
+
+        hasMore = data.has_more;
+        startCursor = data.next_cursor;
+    }
+
+    return results;
+}
+
+/**
+ * Fetches all child blocks of a block or page, following pagination cursors
+ */
+export async function fetchBlockChildren(blockId: string, apiKey: string, logMessage?: Function) {
+    let results: any[] = [];
+    let hasMore = true;
+    let startCursor = null;
 
-        const data = JSON.parse(response.text);
+    while (hasMore) {
+        const query = startCursor
+            ? `?page_size=100&start_cursor=${encodeURIComponent(startCursor)}`
+            : "?page_size=100";
+
+        const data = await notionRequest(
+            apiKey,
+            `/blocks/${blockId}/children${query}`,
+            "GET",
+            undefined,
+            logMessage
+        );
 
         results.push(...data.results);
 
@@ -80,20 +331,21 @@ async function fetchBlockContent(
     previousBlockType: string,
     numberCounter: number,
     content: string,
-    attachmentPath: string,
-    apiKey: string,
+    pageId: string,
     pageName: string,
     fileCounter: number,
-    vaultPath: string,
     safeKey: Function,
     promises: Array<Promise<any>>,
-    subpagesPath: string,
-    importControl: ImportControl,
+    settings: NotionMigrationSettings,
     app: any,
+    importControl: ImportControl,
     logMessage: Function,
-    importSubpages: boolean
+    run: MigrationRun | null
 ) {
-    importControl = importControl || {isImporting: false, forceStop: false}; 
+    importControl = importControl || {isImporting: false, forceStop: false, isPaused: false}; 
+    const {apiKey, attachmentPath, subpagesPath, importSubpages, conflictPolicy} = settings;
+    const vaultPath = app.vault.adapter.basePath;
+    const renderText = (richText: any[]) => renderRichTextWithMentions(richText, settings, run, logMessage);
     
     for (const block of blocks.results) {
         if (importControl && importControl.forceStop) {
@@ -106,12 +358,11 @@ async function fetchBlockContent(
         ) {
             numberCounter = 1;
         }
+        const blockStart = content.length;
         switch (block.type) {
             case "rich_text":
                 if (block.rich_text && block.rich_text.length) {
-                    content += `${block.rich_text
-                        .map((text) => text.plain_text)
-                        .join("")}\n\n`;
+                    content += `${await renderText(block.rich_text)}\n\n`;
                 }
                 break;
             case "paragraph":
@@ -120,30 +371,7 @@ async function fetchBlockContent(
                     block.paragraph.rich_text &&
                     block.paragraph.rich_text.length
                 ) {
-                    let paragraphContent = "";
-                    for (const richTextElement of block.paragraph.rich_text) {
-                        if (richTextElement.type === "text") {
-                            if (richTextElement.href) {
-                                paragraphContent += `[${richTextElement.plain_text}](${richTextElement.href})`;
-                            } else {
-                                paragraphContent += richTextElement.plain_text;
-                            }
-                        } else if (
-                            richTextElement.type === "mention" &&
-                            richTextElement.mention.type === "date"
-                        ) {
-                            const originalDate = new Date(
-                                richTextElement.plain_text
-                            );
-                            const formattedDate = `${originalDate.getDate()}.${
-                                originalDate.getMonth() + 1
-                            }.${originalDate.getFullYear()}`;
-                            paragraphContent += `[[${formattedDate}]]`; // Date formatted as DD.MM.YYYY
-                        } else {
-                            // Handle other types as needed
-                        }
-                    }
-                    content += `${paragraphContent}\n\n`;
+                    content += `${await renderText(block.paragraph.rich_text)}\n\n`;
                 }
                 break;
 
@@ -155,21 +383,16 @@ async function fetchBlockContent(
                     block[block.type].rich_text &&
                     block[block.type].rich_text.length
                 ) {
+                    const headingText = await renderText(block[block.type].rich_text);
+                    if (block[block.type].is_toggleable) {
+                        // A toggleable heading folds its children like a toggle
+                        content += `> [!NOTE]+ ${headingText}\n${block.has_children ? "" : "\n"}`;
+                        break;
+                    }
                     const heading = `#`.repeat(
                         Number(block.type.split("_")[1])
                     );
-                    let headingContent = "";
-                    for (const richTextElement of block[block.type].rich_text) {
-                        let text = richTextElement.plain_text;
-                        if (richTextElement.annotations.bold) {
-                            text = `**${text}**`;
-                        }
-                        if (richTextElement.annotations.italic) {
-                            text = `*${text}*`;
-                        }
-                        headingContent += text;
-                    }
-                    content += `${heading} ${headingContent}\n\n`;
+                    content += `${heading} ${headingText}\n\n`;
                 }
                 break;
 
@@ -190,24 +413,7 @@ async function fetchBlockContent(
                         numberCounter++;
                     }
 
-                    let listItemContent = "";
-                    for (const richTextElement of block[block.type].rich_text) {
-                        let textContent = richTextElement.plain_text;
-
-                        // Apply bold formatting if needed
-                        if (richTextElement.annotations.bold) {
-                            textContent = `**${textContent}**`;
-                        }
-
-                        // Apply italic formatting if needed
-                        if (richTextElement.annotations.italic) {
-                            textContent = `*${textContent}*`;
-                        }
-
-                        listItemContent += textContent;
-                    }
-
-                    content += `${prefix} ${listItemContent}\n`;
+                    content += `${prefix} ${await renderText(block[block.type].rich_text)}\n`;
                 }
                 break;
 
@@ -234,7 +440,7 @@ async function fetchBlockContent(
                         attachmentPath, // Use attachmentPath here
                         `image_${Date.now()}.${fileExtension}`
                     );
-                    await downloadFile(imageUrl, imagePath, app); // Assuming app is available
+                    await downloadBlockAttachment(imageUrl, imagePath, block, pageId, pageName, app, logMessage, run);
                     content += `![[${path.basename(imagePath)}]]\n\n`;
                 }
                 break;
@@ -244,34 +450,12 @@ async function fetchBlockContent(
                     block.to_do.rich_text &&
                     block.to_do.rich_text.length
                 ) {
-                    const checkbox = block.to_do.checked ? "[x]" : "[ ]";
-                    let todoContent = "";
-                    for (const richTextElement of block.to_do.rich_text) {
-                        let textContent = richTextElement.plain_text;
-                        if (richTextElement.annotations.bold) {
-                            textContent = `**${textContent}**`;
-                        }
-                        if (richTextElement.annotations.italic) {
-                            textContent = `*${textContent}*`;
-                        }
-                        todoContent += textContent;
-                    }
-                    content += `${checkbox} ${todoContent}\n`;
+                    const checkbox = block.to_do.checked ? "- [x]" : "- [ ]";
+                    content += `${checkbox} ${await renderText(block.to_do.rich_text)}\n`;
                 }
                 break;
             case "table":
-                if (block.table && block.table.headers && block.table.rows) {
-                    content += "| " + block.table.headers.join(" | ") + " |\n";
-                    content +=
-                        "| " +
-                        new Array(block.table.headers.length)
-                            .fill("---")
-                            .join(" | ") +
-                        " |\n";
-                    block.table.rows.forEach((row) => {
-                        content += "| " + row.join(" | ") + " |\n";
-                    });
-                }
+                // The rows are the children of the table, so it is rendered with them below
                 break;
             case "code":
                 if (
@@ -279,9 +463,8 @@ async function fetchBlockContent(
                     block.code.rich_text &&
                     block.code.rich_text.length
                 ) {
-                    let codeContent = block.code.rich_text
-                        .map((text) => text.plain_text)
-                        .join("");
+                    // Code keeps its characters as they are, so annotations are not rendered
+                    let codeContent = richTextToPlainText(block.code.rich_text);
                     const language = block.code.language
                         ? block.code.language
                         : "";
@@ -302,15 +485,77 @@ async function fetchBlockContent(
                     block.toggle.rich_text &&
                     block.toggle.rich_text.length
                 ) {
-                    let toggleContent = "";
-                    for (const richTextElement of block.toggle.rich_text) {
-                        let textContent = richTextElement.plain_text;
-                        toggleContent += textContent;
+                    content += `> [!NOTE]+ ${await renderText(block.toggle.rich_text)} \n`;
+                    // Without children the callout has to end before the next block
+                    if (!block.has_children) {
+                        content += "\n";
                     }
-                    content += `> [!NOTE]+ ${toggleContent} \n`;
                 }
                 break;
 
+            case "callout": {
+                const calloutType = getCalloutType(block.callout, settings);
+                const calloutText = await renderText(block.callout.rich_text);
+                content += `> [!${calloutType}]\n`;
+                if (calloutText) {
+                    content += prefixLines(calloutText, "> ");
+                }
+                if (!block.has_children) {
+                    content += "\n";
+                }
+                break;
+            }
+
+            case "quote": {
+                const quoteText = await renderText(block.quote.rich_text);
+                content += prefixLines(quoteText || " ", "> ");
+                if (!block.has_children) {
+                    content += "\n";
+                }
+                break;
+            }
+
+            case "equation":
+                if (block.equation && block.equation.expression) {
+                    content += `$$\n${block.equation.expression.trim()}\n$$\n\n`;
+                }
+                break;
+
+            case "divider":
+                content += "---\n\n";
+                break;
+
+            case "table_of_contents":
+                if (settings.tableOfContentsPlaceholder) {
+                    content += `${settings.tableOfContentsPlaceholder}\n\n`;
+                }
+                break;
+
+            case "breadcrumb":
+                // Obsidian shows the location of a note itself, so the breadcrumb is left out
+                break;
+
+            case "column_list":
+            case "column":
+                // Columns are rendered from their children below
+                break;
+
+            case "synced_block": {
+                const syncedFrom = block.synced_block.synced_from;
+                if (!syncedFrom) {
+                    // The original is rendered from its children below and gets the anchor there
+                    break;
+                }
+                // A copy embeds the original, or keeps its own content when the original is not imported
+                const originalNote = await findBlockNoteName(syncedFrom.block_id, settings, run, logMessage);
+                if (originalNote) {
+                    content += `![[${originalNote}#^${blockAnchor(syncedFrom.block_id)}]]\n\n`;
+                    previousBlockType = block.type;
+                    continue;
+                }
+                break;
+            }
+
             case "video":
                 if (importControl && importControl.forceStop) {
                     return content;
@@ -338,7 +583,7 @@ async function fetchBlockContent(
                         attachmentPath, // Use attachmentPath here
                         audioFileName
                     );
-                    await downloadFile(audioUrl, audioFilePath, app); // Assuming app is available
+                    await downloadBlockAttachment(audioUrl, audioFilePath, block, pageId, pageName, app, logMessage, run);
 
                     content += `![[${path.basename(audioFilePath)}]]\n\n`; // Or however you want to reference the audio file
 
@@ -358,7 +603,7 @@ async function fetchBlockContent(
                     );
                     const fileName = `${pageName}_${fileCounter}${fileExtension}`;
                     const filePath = path.join(attachmentPath, fileName);
-                    await downloadFile(fileUrl, filePath, app);
+                    await downloadBlockAttachment(fileUrl, filePath, block, pageId, pageName, app, logMessage, run);
 
                     content += `![[${path.basename(filePath)}]]\n\n`;
 
@@ -371,9 +616,7 @@ async function fetchBlockContent(
                 break;
             case "bookmark":
                 if (block.bookmark && block.bookmark.url) {
-                    let titleText = block.bookmark.caption
-                        .map((text) => text.plain_text)
-                        .join("");
+                    let titleText = richTextToPlainText(block.bookmark.caption);
                     titleText = titleText || block.bookmark.url;
                     const bookmarkUrl = block.bookmark.url;
                     content += `[${titleText}](${bookmarkUrl})\n\n`;
@@ -385,41 +628,101 @@ async function fetchBlockContent(
                 }
                 if (block.child_page && block.child_page.title) {
                     const childPageTitle = block.child_page.title;
+                    let subpageName = childPageTitle;
 
                     // Only process the child page content if importSubpages is true
                     if (importSubpages) {
                         const childPageId = block.id;
 
+                        // A subpage imported before is found by its notion_id, even if it was renamed.
+                        // Any other note with the same name is kept and the subpage gets a numbered name.
+                        const existingPath = run ? run.noteIndex.get(normalizeNotionId(childPageId)) || null : null;
+                        let subpagePath: string;
+                        if (existingPath) {
+                            subpagePath = `${vaultPath}/${existingPath}`;
+                        } else {
+                            const subpageFolder = `${vaultPath}/${subpagesPath}`;
+                            const subpageTitle = generateUniqueTitle(
+                                safeKey(childPageTitle),
+                                subpageFolder,
+                                run && run.preview ? run.preview.plannedPaths : undefined
+                            );
+                            subpagePath = `${subpageFolder}/${subpageTitle}.md`;
+                            run && run.preview && run.preview.plannedPaths.add(subpagePath);
+                        }
+                        subpageName = path.basename(subpagePath, ".md");
+
+                        const tracker = run ? run.tracker : null;
+                        tracker && tracker.addItem(childPageId, pageId, "subpage");
+
                         // Make a recursive call to fetch the content of the child page
-                        let childContent = await extractContentFromPage(
-                            childPageId,
-                            childPageTitle,
-                            apiKey,
-                            attachmentPath,
-                            vaultPath,
-                            subpagesPath,
-                            logMessage,
-                            importControl,
-                            app,
-                            importSubpages // Pass the parameter
-                        );
-
-                        // Ensure childContent is a string, even if null was returned
-                        childContent = childContent || "";
-
-                        // Prepare the path to save the subpage in the folder in the vault
-                        const subpagePath = `${vaultPath}/${subpagesPath}/${safeKey(
-                            childPageTitle
-                        )}.md`;
-
-                        // Use our safe helper function to add the promise
-                        safeAddWritePromise(promises, subpagePath, childContent);
+                        let childContent = null;
+                        try {
+                            childContent = await extractContentFromPage(
+                                childPageId,
+                                childPageTitle,
+                                settings,
+                                app,
+                                importControl,
+                                logMessage,
+                                run
+                            );
+
+                            // Ensure childContent is a string, even if null was returned
+                            childContent = subpageFrontmatter(childPageId) + (childContent || "");
+                        } catch (error) {
+                            logMessage(`Failed to import subpage ${childPageTitle}: ${error.message}`);
+                            tracker && tracker.markItemComplete(childPageId, false, error.message);
+                            recordFailure(run, {
+                                type: "subpage",
+                                pageId: childPageId,
+                                title: childPageTitle,
+                                notePath: toVaultPath(subpagePath, vaultPath),
+                                error: error.message,
+                            });
+                        }
+
+                        // A stop during extraction leaves the subpage incomplete, so the note it would replace is kept
+                        if (importControl && importControl.forceStop) {
+                            return content;
+                        }
+
+                        const subpageExists = !!existingPath;
+                        if (run && run.preview) {
+                            // A dry run lists the subpage instead of writing it
+                            if (childContent !== null) {
+                                run.preview.files.push({
+                                    path: toVaultPath(subpagePath, vaultPath),
+                                    action: subpageExists ? "update" : "create",
+                                });
+                                tracker && tracker.markItemComplete(childPageId, true);
+                            }
+                        } else {
+                            // Use our safe helper function to add the promise
+                            safeAddWritePromise(
+                                promises,
+                                subpagePath,
+                                childContent,
+                                // The conflict policy only applies to the note of this same subpage
+                                existingPath ? conflictPolicy : undefined,
+                                (writtenPath) => {
+                                    run && run.noteIndex.set(normalizeNotionId(childPageId), toVaultPath(writtenPath, vaultPath));
+                                    assignNotePath(run, childPageId, toVaultPath(writtenPath, vaultPath));
+                                    if (!(subpageExists && conflictPolicy === "skip")) {
+                                        recordWrittenNote(run, toVaultPath(writtenPath, vaultPath), subpageExists);
+                                    }
+                                    tracker && tracker.markItemComplete(childPageId, true);
+                                }
+                            );
+                        }
                     }
 
                     // Add link based on importSubpages setting
                     if (importSubpages) {
                         // Internal wikilink if we're importing the page
-                        content += `[[${childPageTitle}]]\n\n`;
+                        content += subpageName === childPageTitle
+                            ? `[[${subpageName}]]\n\n`
+                            : `[[${subpageName}|${childPageTitle}]]\n\n`;
                     } else {
                         // External link to Notion page if not importing
                         const notionPageUrl = `https://www.notion.so/${block.id.replace(/-/g, '')}`;
@@ -427,6 +730,40 @@ async function fetchBlockContent(
                     }
                 }
                 break;
+            case "child_database": {
+                if (!settings.importChildDatabases || !run) {
+                    recordUnsupportedBlock(run, block.type, pageName);
+                    break;
+                }
+                if (importControl && importControl.forceStop) {
+                    return content;
+                }
+                try {
+                    content += await importChildDatabase(block, settings, app, importControl, logMessage, run);
+                } catch (error) {
+                    // Linked views of other databases cannot be queried, so they stay links to Notion
+                    logMessage(`Failed to import inline database in ${pageName}: ${error.message}`);
+                    const databaseTitle = block.child_database.title || "Untitled database";
+                    content += `[${databaseTitle}](https://www.notion.so/${normalizeNotionId(block.id)})\n\n`;
+                }
+                break;
+            }
+            case "link_to_page": {
+                const pageLink = await renderLinkToPage(block.link_to_page, settings, run, logMessage);
+                if (pageLink) {
+                    content += `${pageLink}\n\n`;
+                }
+                break;
+            }
+            default:
+                recordUnsupportedBlock(run, block.type, pageName);
+                break;
+        }
+        // Blocks linked to from notes rendered so far are anchored right away, the others at the end of the run
+        const linkedBlock = run ? run.linkedBlocks.get(normalizeNotionId(block.id)) : undefined;
+        if (linkedBlock && content.length > blockStart && isAnchorableBlock(block)) {
+            content = content.slice(0, blockStart) + appendAnchor(content.slice(blockStart), block.id);
+            linkedBlock.anchored = true;
         }
         // Update the previous block type
         previousBlockType = block.type;
@@ -436,46 +773,87 @@ async function fetchBlockContent(
             if (importControl && importControl.forceStop) {
                 return content;
             }
-            // Fetch children of the block
-            const childBlocksResponse = await requestUrl({
-                url: `https://api.notion.com/v1/blocks/${block.id}/children`,
-                method: "GET",
-                headers: {
-                    Authorization: `Bearer ${apiKey}`,
-                    "Notion-Version": "2022-06-28",
-                },
-            });
-            const childBlocks = JSON.parse(childBlocksResponse.text);
+            // Fetch children of the block, leaving a marker to patch if that fails
+            let childBlocks;
+            try {
+                childBlocks = await fetchBlockChildren(block.id, apiKey, logMessage);
+            } catch (error) {
+                logMessage(`Failed to fetch nested blocks in ${pageName}: ${error.message}`);
+                recordFailure(run, {
+                    type: "block",
+                    pageId: pageId,
+                    title: pageName,
+                    blockId: block.id,
+                    blockType: block.type,
+                    error: error.message,
+                });
+                const markerPrefix = isQuotedBlock(block)
+                    ? "> "
+                    : LIST_BLOCK_TYPES.includes(block.type) ? LIST_INDENT : "";
+                content += `${markerPrefix}${failedBlockMarker(block.id)}\n`;
+                continue;
+            }
             if (importControl && importControl.forceStop) {
                 return content;
             }
-            // Recursively get the content for child blocks
+            if (block.type === "table") {
+                // A table only starts after a blank line
+                if (content && !content.endsWith("\n\n")) {
+                    content += "\n";
+                }
+                content += await renderTable(block, childBlocks, renderText);
+                continue;
+            }
+            if (block.type === "column_list") {
+                // Each column is rendered on its own, in order, so the layout can place them side by side
+                const columns: string[] = [];
+                for (const column of childBlocks) {
+                    columns.push(await fetchBlockContent(
+                        {results: [column]},
+                        null,
+                        1,
+                        "",
+                        pageId,
+                        pageName,
+                        fileCounter,
+                        safeKey,
+                        promises,
+                        settings,
+                        app,
+                        importControl,
+                        logMessage,
+                        run
+                    ));
+                }
+                content += renderColumns(columns, settings.columnLayout);
+                continue;
+            }
+            // Recursively get the content for child blocks. Every nesting level numbers its own list
             const childContent = await fetchBlockContent(
-                {results: childBlocks.results},
-                previousBlockType,
-                numberCounter,
+                {results: childBlocks},
+                null,
+                1,
                 "",
-                attachmentPath,
-                apiKey,
+                pageId,
                 pageName,
                 fileCounter,
-                vaultPath,
                 safeKey,
                 promises,
-                subpagesPath,
-                importControl,
+                settings,
                 app,
+                importControl,
                 logMessage,
-                importSubpages
+                run
             );
 
-            // Add ">" at the start of each line if the block is a "toggle" type
-            if (block.type === "toggle") {
-                const indentedChildContent = childContent
-                    .split("\n")
-                    .map((line) => "> " + line)
-                    .join("\n");
-                content += indentedChildContent;
+            // Add ">" at the start of each line if the block is a toggle, callout or quote
+            if (isQuotedBlock(block)) {
+                content += prefixLines(childContent, "> ") + "\n";
+            } else if (LIST_BLOCK_TYPES.includes(block.type)) {
+                // Children of list items and to-dos are indented one level below them
+                content += prefixLines(childContent, LIST_INDENT);
+            } else if (block.type === "synced_block") {
+                content += renderSyncedOriginal(childContent, childBlocks, block.id);
             } else {
                 content += childContent;
             }
@@ -486,70 +864,41 @@ async function fetchBlockContent(
 }
 
 /**
- * Extracts content from a Notion page
+ * Renders already fetched blocks of a page to Markdown and waits for any subpages they created
  */
-export async function extractContentFromPage(
+export async function renderBlocks(
+    blocks: any[],
     pageId: string,
     pageName: string,
-    apiKey: string,
-    attachmentPath: string,
-    vaultPath: string,
-    subpagesPath: string,
-    logMessage: Function,
-    importControl: ImportControl,
+    settings: NotionMigrationSettings,
     app: any,
-    importSubpages: boolean
-): Promise<string | null> {
-    importControl = importControl || {isImporting: false, forceStop: false}; 
-    if (importControl && importControl.forceStop) {
-        logMessage && logMessage("Import stopped by user.");
-        return "";
-    }
-
-    const requestHeaders = {
-        Authorization: `Bearer ${apiKey}`,
-        "Notion-Version": "2022-06-28",
-        "Content-Type": "application/json",
-    };
-
+    importControl: ImportControl,
+    logMessage: Function,
+    run: MigrationRun | null
+): Promise<string> {
     const safeKey = (key: string) => (/[^\w\s]/.test(key) ? `"${key}"` : key);
 
-    const response = await requestUrl({
-        url: `https://api.notion.com/v1/blocks/${pageId}/children`,
-        method: "GET",
-        headers: requestHeaders,
-    });
-
-    const blocks = JSON.parse(response.text);
-
     const promises: Array<Promise<any>> = [];
     let content = "";
     let numberCounter = 1;
     let fileCounter = 1;
     let previousBlockType = null; // Keep track of the previous block type
 
-    if (importControl && importControl.forceStop) {
-        logMessage && logMessage("Import stopped by user.");
-        return "";
-    }
-
     content = await fetchBlockContent(
-        blocks,
+        {results: blocks},
         previousBlockType,
         numberCounter,
         content,
-        attachmentPath,
-        apiKey,
+        pageId,
         pageName,
         fileCounter,
-        vaultPath,
         safeKey,
         promises,
-        subpagesPath,
-        importControl,
+        settings,
         app,
+        importControl,
         logMessage,
-        importSubpages
+        run
     );
 
     if (importControl && importControl.forceStop) {
@@ -561,3 +910,31 @@ export async function extractContentFromPage(
     await Promise.all(promises.filter(Boolean));
     return content;
 }
+
+/**
+ * Extracts content from a Notion page
+ */
+export async function extractContentFromPage(
+    pageId: string,
+    pageName: string,
+    settings: NotionMigrationSettings,
+    app: any,
+    importControl: ImportControl,
+    logMessage: Function,
+    run: MigrationRun | null
+): Promise<string | null> {
+    importControl = importControl || {isImporting: false, forceStop: false, isPaused: false}; 
+    if (importControl && importControl.forceStop) {
+        logMessage && logMessage("Import stopped by user.");
+        return "";
+    }
+
+    const blocks = await fetchBlockChildren(pageId, settings.apiKey, logMessage);
+
+    if (importControl && importControl.forceStop) {
+        logMessage && logMessage("Import stopped by user.");
+        return "";
+    }
+
+    return renderBlocks(blocks, pageId, pageName, settings, app, importControl, logMessage, run);
+}
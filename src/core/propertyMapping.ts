@@ -0,0 +1,189 @@
+import {
+    NotionMigrationSettings,
+    PropertyKeyStyle,
+    PropertyMapping,
+    PropertyTargetType
+} from "../interfaces/PluginSettings";
+import { PropertyScalar, PropertyValue } from "./propertyValues";
+import { parseDateValue } from "./dates";
+import { normalizeNotionId } from "./noteIndex";
+
+export const DEFAULT_PROPERTY_MAPPING: PropertyMapping = {
+    key: "",
+    keyStyle: "original",
+    type: "auto",
+    placement: "frontmatter",
+    toTags: false,
+    tagPrefix: "",
+};
+
+// Property types whose options can become tags
+export const TAG_PROPERTY_TYPES = ["select", "multi_select", "status"];
+
+/**
+ * Returns the mappings saved for the properties of the selected database
+ */
+export function getPropertyMappings(settings: NotionMigrationSettings): { [propertyName: string]: PropertyMapping } {
+    if (!settings.databaseId) {
+        return {};
+    }
+    return settings.propertyMappings[normalizeNotionId(settings.databaseId)] || {};
+}
+
+/**
+ * Returns the mapping of a property, with defaults for the options that are not set
+ */
+export function getPropertyMapping(settings: NotionMigrationSettings, propertyName: string): PropertyMapping {
+    return {...DEFAULT_PROPERTY_MAPPING, ...getPropertyMappings(settings)[propertyName]};
+}
+
+/**
+ * Joins the words of a property name for Dataview, e.g. "Due date" becomes "DueDate"
+ */
+export function squashPropertyName(key: string): string {
+    return key
+        .split(" ")
+        .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+        .join("");
+}
+
+/**
+ * Rewrites a key in a key style, e.g. "Due date" as "dueDate", "due_date" or "due-date"
+ */
+export function styleKey(key: string, style: PropertyKeyStyle): string {
+    if (style === "original") {
+        return key;
+    }
+    const words = key
+        .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+        .split(/[^A-Za-z0-9\u00C0-\uFFFF]+/)
+        .filter(Boolean)
+        .map((word) => word.toLowerCase());
+
+    switch (style) {
+        case "camelCase":
+            return words.map((word, index) => (index ? word.charAt(0).toUpperCase() + word.slice(1) : word)).join("");
+        case "snake_case":
+            return words.join("_");
+        case "kebab-case":
+            return words.join("-");
+    }
+}
+
+/**
+ * Works out the key a property is written under. Without a key style, date names are still
+ * squashed for Dataview when that setting is on.
+ */
+export function propertyKey(
+    name: string,
+    propertyType: string,
+    mapping: PropertyMapping,
+    settings: NotionMigrationSettings
+): string {
+    const key = mapping.key || name;
+    if (mapping.keyStyle === "original" && propertyType === "date" && settings.squashDateNamesForDataview) {
+        return squashPropertyName(key);
+    }
+    return styleKey(key, mapping.keyStyle);
+}
+
+/**
+ * Works out the key the end of a date range is written under, next to its start
+ */
+export function dateEndKey(
+    name: string,
+    mapping: PropertyMapping,
+    settings: NotionMigrationSettings
+): string {
+    if (mapping.keyStyle !== "original") {
+        return styleKey(`${mapping.key || name} End`, mapping.keyStyle);
+    }
+    const startKey = propertyKey(name, "date", mapping, settings);
+    return settings.squashDateNamesForDataview ? `${startKey}End` : `${startKey} End`;
+}
+
+/**
+ * Turns text into a valid tag part: spaces become dashes and characters tags cannot contain are dropped
+ */
+function normalizeTagPart(text: string): string {
+    return text
+        .trim()
+        .replace(/^#+/, "")
+        .replace(/\s+/g, "-")
+        .replace(/[^A-Za-z0-9_\-/\u00C0-\uFFFF]/g, "")
+        .replace(/-{2,}/g, "-")
+        .replace(/\/{2,}/g, "/")
+        .replace(/^[-/]+|[-/]+$/g, "");
+}
+
+/**
+ * Turns a value into an Obsidian tag without the #, nested below a prefix when one is given.
+ * Returns null when nothing usable is left.
+ */
+export function toTag(value: PropertyScalar, prefix = ""): string | null {
+    const tag = normalizeTagPart(String(value));
+    if (!tag) {
+        return null;
+    }
+    const tagPrefix = normalizeTagPart(prefix);
+    if (tagPrefix) {
+        return `${tagPrefix}/${tag}`;
+    }
+    // A tag needs at least one character that is not a digit
+    return /^[0-9/]+$/.test(tag) ? `_${tag}` : tag;
+}
+
+/**
+ * Converts a property value to the target type of its mapping
+ */
+export function convertPropertyValue(value: PropertyValue, type: PropertyTargetType, timezone: string): PropertyValue {
+    const items: PropertyScalar[] = Array.isArray(value) ? value : value === null ? [] : [value];
+
+    switch (type) {
+        case "text":
+            return items.length ? items.join(", ") : null;
+        case "list":
+            return items;
+        case "tags":
+            return items.map((item) => toTag(item)).filter(Boolean);
+        case "link": {
+            const links = items.map((item) => `[[${String(item).replace(/^\[\[|\]\]$/g, "")}]]`);
+            return Array.isArray(value) ? links : links[0] || null;
+        }
+        case "date": {
+            // Values that are not dates are kept, so nothing is lost
+            const dates = items.map((item) => parseDateValue(String(item), timezone) || item);
+            return Array.isArray(value) ? dates : dates[0] || null;
+        }
+        default:
+            return value;
+    }
+}
+
+/**
+ * Formats a value for the note body, joining lists with commas
+ */
+function formatInlineValue(value: PropertyValue): string {
+    if (Array.isArray(value)) {
+        return value.join(", ");
+    }
+    return value === null ? "" : String(value);
+}
+
+/**
+ * Renders a property as a Dataview inline field, e.g. "status:: Done"
+ */
+export function renderInlineField(key: string, value: PropertyValue): string {
+    return `${key}:: ${formatInlineValue(value)}\n`;
+}
+
+/**
+ * Renders a property as a section of the note body, with lists as bullet points
+ */
+export function renderBodyProperty(key: string, value: PropertyValue): string {
+    if (value === null || (Array.isArray(value) && !value.length)) {
+        return "";
+    }
+    const text = Array.isArray(value) ? value.map((item) => `- ${item}`).join("\n") : String(value);
+    return `## ${key}\n\n${text}\n\n`;
+}
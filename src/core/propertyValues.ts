@@ -0,0 +1,153 @@
+import { MigrationRun } from "../interfaces/NotionTypes";
+import { NotionMigrationSettings } from "../interfaces/PluginSettings";
+import { notionRequest } from "./notionClient";
+import { richTextToPlainText } from "./richText";
+import { formatPropertyDate } from "./dates";
+import { normalizeNotionId } from "./noteIndex";
+
+export type PropertyScalar = string | number | boolean;
+
+// A frontmatter value: one scalar, a list of them, or null for an empty property
+export type PropertyValue = PropertyScalar | PropertyScalar[] | null;
+
+/**
+ * Returns the name of a Notion user, falling back to the ID for users the integration cannot see
+ */
+export function userName(user: any): string {
+    return user.name || (user.person && user.person.email) || user.id;
+}
+
+/**
+ * Converts the result of a formula to a single value. A date range keeps its start.
+ */
+export function formulaValue(formula: any, timezone: string): PropertyValue {
+    if (!formula) {
+        return null;
+    }
+    switch (formula.type) {
+        case "string":
+        case "number":
+        case "boolean":
+            return formula[formula.type] ?? null;
+        case "date":
+            return formula.date && formula.date.start ? formatPropertyDate(formula.date.start, timezone) : null;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Looks up the title of a related page, or null when it cannot be read.
+ * Titles are kept for the run, since the same pages are related to from many rows.
+ */
+export async function fetchPageTitle(
+    pageId: string,
+    settings: NotionMigrationSettings,
+    run: MigrationRun,
+    logMessage: Function
+): Promise<string | null> {
+    const id = normalizeNotionId(pageId);
+    if (run.pageTitles.has(id)) {
+        return run.pageTitles.get(id);
+    }
+    let title: string | null = null;
+    try {
+        const page = await notionRequest(settings.apiKey, `/pages/${pageId}`, "GET", undefined, logMessage);
+        const titleProperty: any = Object.values(page.properties || {}).find((property: any) => property.type === "title");
+        title = titleProperty ? richTextToPlainText(titleProperty.title) || null : null;
+    } catch (error) {
+        logMessage(`Could not look up related page ${id}: ${error.message}`);
+    }
+    run.pageTitles.set(id, title);
+    return title;
+}
+
+/**
+ * Converts one item of a rollup array, which is a property value of the related page, to its values
+ */
+async function rollupItemValues(
+    item: any,
+    settings: NotionMigrationSettings,
+    run: MigrationRun,
+    logMessage: Function
+): Promise<PropertyScalar[]> {
+    const value = item[item.type];
+    if (value === null || value === undefined) {
+        return [];
+    }
+    switch (item.type) {
+        case "title":
+        case "rich_text":
+            return [richTextToPlainText(value)];
+        case "select":
+        case "status":
+            return [value.name];
+        case "multi_select":
+            return value.map((option: any) => option.name);
+        case "number":
+        case "checkbox":
+        case "url":
+        case "email":
+        case "phone_number":
+            return [value];
+        case "date":
+            return value.start ? [formatPropertyDate(value.start, settings.timezone)] : [];
+        case "created_time":
+        case "last_edited_time":
+            return [formatPropertyDate(value, settings.timezone)];
+        case "formula": {
+            const result = formulaValue(value, settings.timezone);
+            return result === null ? [] : [result as PropertyScalar];
+        }
+        case "people":
+            return value.map(userName);
+        case "created_by":
+        case "last_edited_by":
+            return [userName(value)];
+        case "unique_id":
+            return value.number === null ? [] : [value.prefix ? `${value.prefix}-${value.number}` : value.number];
+        case "files":
+            return value.map((file: any) => file.name);
+        case "relation": {
+            const titles: PropertyScalar[] = [];
+            for (const relation of value) {
+                const title = await fetchPageTitle(relation.id, settings, run, logMessage);
+                title && titles.push(title);
+            }
+            return titles;
+        }
+        default:
+            return [];
+    }
+}
+
+/**
+ * Converts a rollup to a single value, or to a list when it shows the original values.
+ * Rollups Notion could not finish calculating are left empty.
+ */
+export async function rollupValue(
+    rollup: any,
+    settings: NotionMigrationSettings,
+    run: MigrationRun,
+    logMessage: Function
+): Promise<PropertyValue> {
+    if (!rollup) {
+        return null;
+    }
+    switch (rollup.type) {
+        case "number":
+            return rollup.number ?? null;
+        case "date":
+            return rollup.date && rollup.date.start ? formatPropertyDate(rollup.date.start, settings.timezone) : null;
+        case "array": {
+            const values: PropertyScalar[] = [];
+            for (const item of rollup.array || []) {
+                values.push(...await rollupItemValues(item, settings, run, logMessage));
+            }
+            return values.filter((value) => value !== "");
+        }
+        default:
+            // "incomplete" and "unsupported" rollups have no value
+            return null;
+    }
+}
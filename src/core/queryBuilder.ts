@@ -0,0 +1,123 @@
+import { QueryFilterRule, QuerySortRule } from "../interfaces/PluginSettings";
+
+// Filters on these types target the page timestamps instead of a named property
+export const TIMESTAMP_FILTER_TYPES = ["created_time", "last_edited_time"];
+
+const TEXT_OPERATORS = [
+    "equals", "does_not_equal", "contains", "does_not_contain",
+    "starts_with", "ends_with", "is_empty", "is_not_empty",
+];
+const DATE_OPERATORS = [
+    "equals", "before", "after", "on_or_before", "on_or_after",
+    "is_empty", "is_not_empty",
+];
+
+/**
+ * Notion filter operators available for each property type
+ */
+export const FILTER_OPERATORS: { [type: string]: string[] } = {
+    title: TEXT_OPERATORS,
+    rich_text: TEXT_OPERATORS,
+    url: TEXT_OPERATORS,
+    email: TEXT_OPERATORS,
+    phone_number: TEXT_OPERATORS,
+    number: [
+        "equals", "does_not_equal", "greater_than", "less_than",
+        "greater_than_or_equal_to", "less_than_or_equal_to",
+        "is_empty", "is_not_empty",
+    ],
+    checkbox: ["equals", "does_not_equal"],
+    select: ["equals", "does_not_equal", "is_empty", "is_not_empty"],
+    status: ["equals", "does_not_equal", "is_empty", "is_not_empty"],
+    multi_select: ["contains", "does_not_contain", "is_empty", "is_not_empty"],
+    date: DATE_OPERATORS,
+    created_time: DATE_OPERATORS,
+    last_edited_time: DATE_OPERATORS,
+};
+
+/**
+ * Checks whether an operator needs a value from the user
+ */
+export function operatorNeedsValue(operator: string): boolean {
+    return operator !== "is_empty" && operator !== "is_not_empty";
+}
+
+/**
+ * Converts the value typed in the settings to what Notion expects for the property type
+ */
+function convertFilterValue(rule: QueryFilterRule): any {
+    if (!operatorNeedsValue(rule.operator)) {
+        return true;
+    }
+
+    switch (rule.type) {
+        case "number":
+            return Number(rule.value);
+        case "checkbox":
+            return rule.value.trim().toLowerCase() === "true";
+        default:
+            return rule.value;
+    }
+}
+
+/**
+ * Checks whether a filter rule has everything needed to build a Notion filter
+ */
+function isCompleteRule(rule: QueryFilterRule): boolean {
+    const operators = FILTER_OPERATORS[rule.type];
+    if (!operators || !operators.includes(rule.operator)) {
+        return false;
+    }
+    if (!TIMESTAMP_FILTER_TYPES.includes(rule.type) && !rule.property.trim()) {
+        return false;
+    }
+    if (operatorNeedsValue(rule.operator) && !rule.value.trim()) {
+        return false;
+    }
+    if (rule.type === "number" && isNaN(Number(rule.value)) && operatorNeedsValue(rule.operator)) {
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Builds a single Notion filter object from a filter rule
+ */
+function buildFilter(rule: QueryFilterRule): any {
+    const condition = {[rule.operator]: convertFilterValue(rule)};
+
+    if (TIMESTAMP_FILTER_TYPES.includes(rule.type)) {
+        return {timestamp: rule.type, [rule.type]: condition};
+    }
+    return {property: rule.property.trim(), [rule.type]: condition};
+}
+
+/**
+ * Builds the filter and sorts body for a Notion database query.
+ * Incomplete rules are skipped so a half-filled builder row never breaks an import.
+ */
+export function buildDatabaseQuery(
+    filters: QueryFilterRule[],
+    filterMatch: "and" | "or",
+    sorts: QuerySortRule[]
+): { filter?: any; sorts?: any[] } {
+    const query: { filter?: any; sorts?: any[] } = {};
+
+    const notionFilters = (filters || []).filter(isCompleteRule).map(buildFilter);
+    if (notionFilters.length === 1) {
+        query.filter = notionFilters[0];
+    } else if (notionFilters.length > 1) {
+        query.filter = {[filterMatch]: notionFilters};
+    }
+
+    const notionSorts = (sorts || [])
+        .filter((sort) => sort.property.trim())
+        .map((sort) => TIMESTAMP_FILTER_TYPES.includes(sort.property.trim())
+            ? {timestamp: sort.property.trim(), direction: sort.direction}
+            : {property: sort.property.trim(), direction: sort.direction});
+    if (notionSorts.length) {
+        query.sorts = notionSorts;
+    }
+
+    return query;
+}
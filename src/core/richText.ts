@@ -0,0 +1,166 @@
+import { normalizeNotionId } from "./noteIndex";
+import { formatDate } from "./dates";
+import { DateMentionStyle } from "../interfaces/PluginSettings";
+
+export interface RichTextOptions {
+    // Note names of mentioned pages and databases that were imported, by normalized Notion ID
+    mentionLinks?: Map<string, string>;
+    dateMentionFormat?: string;
+    dateMentionStyle?: DateMentionStyle;
+    timezone?: string;
+}
+
+export interface NotionLinkTarget {
+    // Normalized IDs of the linked page and, for a link to a block, of the block
+    pageId: string;
+    blockId: string | null;
+}
+
+// Links inside Notion look like "/<page id>#<block id>" or "https://www.notion.so/Title-<page id>?pvs=4#<block id>"
+const NOTION_URL_REGEX = /^(?:https?:\/\/(?:www\.)?notion\.so)?\/(?:[^/?#]+\/)?(?:[^/?#]*-)?([0-9a-f]{32})(?:\?[^#]*)?(?:#([0-9a-f]{32}))?$/i;
+
+/**
+ * Finds the page and block a link to Notion points at, or null for other links
+ */
+export function parseNotionUrl(href: string | null | undefined): NotionLinkTarget | null {
+    const match = href ? href.match(NOTION_URL_REGEX) : null;
+    if (!match) {
+        return null;
+    }
+    return {
+        pageId: match[1].toLowerCase(),
+        blockId: match[2] ? match[2].toLowerCase() : null,
+    };
+}
+
+/**
+ * Wraps text in a Markdown marker, keeping surrounding whitespace outside of it
+ * since "** bold**" is not rendered as bold
+ */
+function wrap(text: string, before: string, after: string = before): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+    if (!match[2]) {
+        return text;
+    }
+    return `${match[1]}${before}${match[2]}${after}${match[3]}`;
+}
+
+/**
+ * Renders a Notion date mention as a link to the daily note, or as plain text.
+ * A date range becomes "start → end".
+ */
+function renderDateMention(element: any, options: RichTextOptions): string {
+    const date = element.mention.date;
+    if (!date || !date.start) {
+        return element.plain_text;
+    }
+    const format = options.dateMentionFormat || "D.M.YYYY";
+    const renderDate = (value: string) => {
+        const formattedDate = formatDate(value, format, options.timezone);
+        return options.dateMentionStyle === "text" ? formattedDate : `[[${formattedDate}]]`;
+    };
+    return date.end ? `${renderDate(date.start)} → ${renderDate(date.end)}` : renderDate(date.start);
+}
+
+/**
+ * Renders a page or database mention as a wikilink to its note,
+ * or as a link back to Notion when it was not imported
+ */
+function renderPageMention(element: any, options: RichTextOptions): string {
+    const mention = element.mention;
+    const id = mention.type === "page" ? mention.page.id : mention.database.id;
+    const noteName = options.mentionLinks ? options.mentionLinks.get(normalizeNotionId(id)) : undefined;
+
+    if (noteName) {
+        return noteName === element.plain_text ? `[[${noteName}]]` : `[[${noteName}|${element.plain_text}]]`;
+    }
+    const url = element.href || `https://www.notion.so/${normalizeNotionId(id)}`;
+    return `[${element.plain_text}](${url})`;
+}
+
+/**
+ * Renders a single rich text element with its annotations and link
+ */
+function renderRichTextElement(element: any, options: RichTextOptions): string {
+    if (element.type === "mention" && element.mention) {
+        switch (element.mention.type) {
+            case "date":
+                return renderDateMention(element, options);
+            case "page":
+            case "database":
+                return renderPageMention(element, options);
+            case "user": {
+                const user = element.mention.user;
+                const name = user && user.name ? user.name : element.plain_text.replace(/^@/, "");
+                return `@${name}`;
+            }
+        }
+    }
+
+    if (element.type === "equation" && element.equation) {
+        // Obsidian renders inline LaTeX between single dollar signs
+        return `$${element.equation.expression.trim()}$`;
+    }
+
+    let text = element.plain_text || "";
+    const annotations = element.annotations || {};
+
+    if (annotations.code) {
+        text = wrap(text, "`");
+    }
+    if (annotations.bold) {
+        text = wrap(text, "**");
+    }
+    if (annotations.italic) {
+        text = wrap(text, "*");
+    }
+    if (annotations.strikethrough) {
+        text = wrap(text, "~~");
+    }
+    if (annotations.underline) {
+        text = wrap(text, "<u>", "</u>");
+    }
+    if (annotations.color && annotations.color !== "default") {
+        // Obsidian has no text colours, so backgrounds become highlights and colours inline HTML
+        text = annotations.color.endsWith("_background")
+            ? wrap(text, "==")
+            : wrap(text, `<span style="color: ${annotations.color}">`, "</span>");
+    }
+    if (element.href) {
+        // Links to imported pages and their blocks become wikilinks, relative Notion links absolute ones
+        const target = parseNotionUrl(element.href);
+        const noteName = target && options.mentionLinks ? options.mentionLinks.get(target.pageId) : undefined;
+        if (noteName && target.blockId) {
+            return `[[${noteName}#^${target.blockId}|${element.plain_text}]]`;
+        }
+        if (noteName) {
+            return noteName === element.plain_text ? `[[${noteName}]]` : `[[${noteName}|${element.plain_text}]]`;
+        }
+        const url = element.href.startsWith("/") ? `https://www.notion.so${element.href}` : element.href;
+        text = `[${text}](${url})`;
+    }
+
+    return text;
+}
+
+/**
+ * Renders Notion rich text to Markdown, keeping bold, italic, strikethrough, code,
+ * underline, colour and links. Mentions and links to imported pages or their blocks become wikilinks,
+ * other mentions Notion links or @names, and inline equations become $...$ LaTeX.
+ */
+export function renderRichText(richText: any[] | null | undefined, options: RichTextOptions = {}): string {
+    if (!richText || !richText.length) {
+        return "";
+    }
+    return richText.map((element) => renderRichTextElement(element, options)).join("");
+}
+
+/**
+ * Joins Notion rich text to plain text, for file names and other places without Markdown
+ */
+export function richTextToPlainText(richText: any[] | null | undefined): string {
+    if (!richText || !richText.length) {
+        return "";
+    }
+    return richText.map((element) => element.plain_text).join("");
+}
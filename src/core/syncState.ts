@@ -0,0 +1,76 @@
+import { DatabaseSyncState } from "../interfaces/PluginSettings";
+
+/**
+ * Returns the sync state of a database, creating an empty one on first use
+ */
+export function getDatabaseSyncState(
+    syncState: { [databaseId: string]: DatabaseSyncState },
+    databaseId: string
+): DatabaseSyncState {
+    if (!syncState[databaseId]) {
+        syncState[databaseId] = {
+            lastSyncTime: null,
+            querySignature: "",
+            pages: {},
+        };
+    }
+    return syncState[databaseId];
+}
+
+/**
+ * Narrows a database query to the pages edited since the last completed sync.
+ * The full query is kept when the filters changed, since pages that newly match
+ * them may not have been edited.
+ */
+export function buildSyncQuery(
+    query: { filter?: any; sorts?: any[] },
+    state: DatabaseSyncState
+): { filter?: any; sorts?: any[] } {
+    if (!state.lastSyncTime || state.querySignature !== JSON.stringify(query)) {
+        return query;
+    }
+
+    const changedFilter = {
+        timestamp: "last_edited_time",
+        last_edited_time: {on_or_after: state.lastSyncTime},
+    };
+
+    return {
+        ...query,
+        filter: query.filter ? {and: [query.filter, changedFilter]} : changedFilter,
+    };
+}
+
+/**
+ * Checks whether a page is unchanged since it was last written
+ */
+export function isPageUnchanged(state: DatabaseSyncState, page: any): boolean {
+    const record = state.pages[page.id];
+    return !!record && record.lastEditedTime === page.last_edited_time;
+}
+
+/**
+ * Records the Notion edit time and vault path of a written page
+ */
+export function recordSyncedPage(state: DatabaseSyncState, page: any, filePath: string) {
+    state.pages[page.id] = {
+        lastEditedTime: page.last_edited_time,
+        filePath: filePath,
+    };
+}
+
+/**
+ * Marks a sync as completed so the next run only fetches pages edited after it started.
+ * Notion rounds last_edited_time down to the minute, so the start time is rounded the same way.
+ */
+export function completeSync(
+    state: DatabaseSyncState,
+    query: { filter?: any; sorts?: any[] },
+    startTime: Date
+) {
+    const roundedStart = new Date(startTime.getTime());
+    roundedStart.setUTCSeconds(0, 0);
+
+    state.lastSyncTime = roundedStart.toISOString();
+    state.querySignature = JSON.stringify(query);
+}
@@ -1,3 +1,6 @@
+import { DatabaseSyncState, MigrationCheckpoint, MigrationFailure } from "./PluginSettings";
+import { ImportTracker } from "../core/importTracker";
+
 export interface NotionProperty {
     id: string;
     type: string;
@@ -17,6 +20,52 @@ export interface NotionProperties {
 export interface ImportControl {
     isImporting: boolean;
     forceStop: boolean;
+    isPaused: boolean;
+}
+
+export interface MigrationRun {
+    syncState: DatabaseSyncState | null;
+    checkpoint: MigrationCheckpoint | null;
+    noteIndex: Map<string, string>;
+    // Titles of related pages looked up in Notion, null when they cannot be read
+    pageTitles: Map<string, string | null>;
+    // Blocks that imported notes link to, by normalized Notion ID, so they get a ^block-id anchor
+    linkedBlocks: Map<string, LinkedBlock>;
+    // Views written for inline databases already imported in this run, by normalized Notion ID
+    childDatabases: Map<string, string>;
+    failures: MigrationFailure[];
+    tracker: ImportTracker | null;
+    // Block types without a converter, with the pages they appear in
+    unsupportedBlocks: { [blockType: string]: string[] };
+    // Property types without a converter, with the names of the properties that have them
+    unsupportedProperties: { [propertyType: string]: string[] };
+    // Set in a dry run, which only renders notes and collects what would be written here
+    preview: MigrationPreview | null;
+    stats: MigrationStats;
+}
+
+export interface LinkedBlock {
+    // Normalized ID of the page the block is on
+    pageId: string;
+    anchored: boolean;
+}
+
+export interface MigrationStats {
+    fetchedPages: number;
+    skippedPages: number;
+    downloadedAttachments: number;
+    // Vault paths of the notes written in this run, subpages included
+    createdNotes: string[];
+    updatedNotes: string[];
+}
+
+export interface MigrationPreview {
+    files: Array<{path: string, action: "create" | "update"}>;
+    collisions: Array<{title: string, path: string}>;
+    attachments: Array<{pageTitle: string, url: string, targetPath: string}>;
+    droppedProperties: { [property: string]: string };
+    // Vault paths planned in this run, so notes with the same title also collide with each other
+    plannedPaths: Set<string>;
 }
 
 export interface WriteFileOptions {
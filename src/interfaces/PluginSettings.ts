@@ -1,3 +1,74 @@
+export interface QueryFilterRule {
+    property: string;
+    type: string;
+    operator: string;
+    value: string;
+}
+
+export interface QuerySortRule {
+    property: string;
+    direction: "ascending" | "descending";
+}
+
+export type ConflictPolicy = "skip" | "overwrite" | "frontmatter";
+
+export type DateMentionStyle = "link" | "text";
+
+export type ColumnLayout = "stacked" | "callout";
+
+export type ChildDatabaseView = "dataview" | "base";
+
+export type PropertyKeyStyle = "original" | "camelCase" | "snake_case" | "kebab-case";
+
+// "auto" keeps the value as the property type converts it
+export type PropertyTargetType = "auto" | "text" | "list" | "tags" | "link" | "date";
+
+export type PropertyPlacement = "frontmatter" | "inline" | "body";
+
+export interface PropertyMapping {
+    // Key to write the property under, empty to keep the Notion name
+    key: string;
+    keyStyle: PropertyKeyStyle;
+    type: PropertyTargetType;
+    placement: PropertyPlacement;
+    // Adds the options of a select, multi-select or status property to the note's tags instead
+    toTags: boolean;
+    // Nests those tags below a prefix, e.g. "project" for project/alpha
+    tagPrefix: string;
+}
+
+export interface PageSyncRecord {
+    lastEditedTime: string;
+    filePath: string;
+}
+
+export interface DatabaseSyncState {
+    lastSyncTime: string | null;
+    querySignature: string;
+    pages: { [pageId: string]: PageSyncRecord };
+}
+
+export interface MigrationCheckpoint {
+    databaseId: string;
+    query: { filter?: any; sorts?: any[] };
+    startCursor: string | null;
+    writtenPageIds: string[];
+    startedAt: string;
+}
+
+export interface MigrationFailure {
+    type: "page" | "subpage" | "block" | "attachment";
+    pageId: string;
+    title: string;
+    error: string;
+    blockId?: string;
+    blockType?: string;
+    propertyName?: string;
+    fileName?: string;
+    targetPath?: string;
+    notePath?: string;
+}
+
 export interface NotionMigrationSettings {
     apiKey: string;
     databaseId: string;
@@ -13,6 +84,26 @@ export interface NotionMigrationSettings {
     subpagesPath: string;
     importSubpages: boolean;
     enabledProperties: { [key: string]: boolean };
+    // Mappings of the properties of each database, by normalized database ID and property name
+    propertyMappings: { [databaseId: string]: { [propertyName: string]: PropertyMapping } };
+    queryFilters: QueryFilterRule[];
+    queryFilterMatch: "and" | "or";
+    querySorts: QuerySortRule[];
+    syncMode: boolean;
+    syncState: { [databaseId: string]: DatabaseSyncState };
+    conflictPolicy: ConflictPolicy;
+    checkpoint: MigrationCheckpoint | null;
+    failures: MigrationFailure[];
+    dateMentionFormat: string;
+    dateMentionStyle: DateMentionStyle;
+    timezone: string;
+    // Obsidian callout types by Notion callout emoji or colour, e.g. "💡" or "red_background"
+    calloutTypes: { [iconOrColor: string]: string };
+    defaultCalloutType: string;
+    tableOfContentsPlaceholder: string;
+    columnLayout: ColumnLayout;
+    importChildDatabases: boolean;
+    childDatabaseView: ChildDatabaseView;
 }
 
 export const DEFAULT_SETTINGS: NotionMigrationSettings = {
@@ -26,8 +117,37 @@ export const DEFAULT_SETTINGS: NotionMigrationSettings = {
     isImporting: false,
     createRelationContentPage: true,
     enabledProperties: {},
+    propertyMappings: {},
     createSemanticLinking: true,
     squashDateNamesForDataview: true,
     importSubpages: true,
     subpagesPath: "subpages",
+    queryFilters: [],
+    queryFilterMatch: "and",
+    querySorts: [],
+    syncMode: false,
+    syncState: {},
+    conflictPolicy: "overwrite",
+    checkpoint: null,
+    failures: [],
+    dateMentionFormat: "D.M.YYYY",
+    dateMentionStyle: "link",
+    timezone: "UTC",
+    calloutTypes: {
+        "💡": "tip",
+        "⚠️": "warning",
+        "❗": "important",
+        "ℹ️": "info",
+        "✅": "success",
+        "❓": "question",
+        "red_background": "danger",
+        "yellow_background": "warning",
+        "green_background": "success",
+        "blue_background": "info",
+    },
+    defaultCalloutType: "note",
+    tableOfContentsPlaceholder: "%% Table of contents %%",
+    columnLayout: "stacked",
+    importChildDatabases: false,
+    childDatabaseView: "dataview",
 };
@@ -0,0 +1,167 @@
+import { ItemView, WorkspaceLeaf } from "obsidian";
+import NotionMigrationPlugin from "../main";
+import { ImportTracker, TrackedItemType } from "../core/importTracker";
+import { describeFailure } from "../core/failures";
+import { MigrationFailure } from "../interfaces/PluginSettings";
+
+export const IMPORT_PROGRESS_VIEW_TYPE = "notion-import-progress";
+
+const MAX_LISTED_FAILURES = 100;
+
+const COUNTER_LABELS: { [type in TrackedItemType]: string } = {
+    page: "Pages",
+    subpage: "Subpages",
+    attachment: "Attachments",
+};
+
+/**
+ * Formats a duration in milliseconds as a short "1h 5m" / "3m 20s" / "12s" text
+ */
+function formatDuration(milliseconds: number): string {
+    const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    if (hours > 0) {
+        return `${hours}h ${minutes}m`;
+    }
+    if (minutes > 0) {
+        return `${minutes}m ${seconds}s`;
+    }
+    return `${seconds}s`;
+}
+
+/**
+ * Side panel showing the progress of the running import and the items that failed
+ */
+export class ImportProgressView extends ItemView {
+    plugin: NotionMigrationPlugin;
+    tracker: ImportTracker;
+    private unsubscribe: (() => void) | null = null;
+    private renderScheduled = false;
+
+    constructor(leaf: WorkspaceLeaf, plugin: NotionMigrationPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+        this.tracker = plugin.tracker;
+    }
+
+    getViewType(): string {
+        return IMPORT_PROGRESS_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return "Notion import";
+    }
+
+    getIcon(): string {
+        return "download";
+    }
+
+    async onOpen() {
+        this.unsubscribe = this.tracker.onUpdate(() => this.scheduleRender());
+        this.render();
+    }
+
+    async onClose() {
+        if (this.unsubscribe) {
+            this.unsubscribe();
+            this.unsubscribe = null;
+        }
+    }
+
+    /**
+     * Batches the many updates of a running import into one render per animation frame
+     */
+    private scheduleRender() {
+        if (this.renderScheduled) {
+            return;
+        }
+        this.renderScheduled = true;
+        window.requestAnimationFrame(() => {
+            this.renderScheduled = false;
+            this.render();
+        });
+    }
+
+    render() {
+        const containerEl = this.contentEl;
+        containerEl.empty();
+        containerEl.addClass("n2o-progress-view");
+
+        containerEl.createEl("h4", {
+            text: this.tracker.isActive() ? "Migrating content from Notion" : "No import running",
+        });
+
+        const progressEl = containerEl.createDiv({cls: "import-progress"});
+        const barEl = progressEl.createDiv({cls: "import-progress-bar"});
+        const fillEl = barEl.createDiv({cls: "import-progress-bar-fill"});
+        fillEl.style.width = `${this.tracker.getPercentage()}%`;
+        progressEl.createSpan({text: `${this.tracker.getPercentage()}%`});
+
+        const countersEl = containerEl.createDiv({cls: "n2o-progress-counters"});
+        for (const type of Object.keys(COUNTER_LABELS) as TrackedItemType[]) {
+            const counts = this.tracker.getCounts(type);
+            const counterEl = countersEl.createDiv({cls: "n2o-progress-counter"});
+            counterEl.createDiv({cls: "n2o-progress-counter-label", text: COUNTER_LABELS[type]});
+            counterEl.createDiv({text: `${counts.completed}/${counts.total}`});
+            if (counts.failed) {
+                counterEl.createDiv({cls: "import-details-error", text: `${counts.failed} failed`});
+            }
+        }
+
+        if (this.tracker.getCurrentPage()) {
+            containerEl.createDiv({
+                cls: "n2o-progress-current",
+                text: `Current page: ${this.tracker.getCurrentPage()}`,
+            });
+        }
+
+        const timeLeft = this.tracker.getEstimatedTimeLeft();
+        if (timeLeft !== null) {
+            containerEl.createDiv({
+                cls: "n2o-progress-eta",
+                text: `Estimated time left: ${formatDuration(timeLeft)}`,
+            });
+        }
+
+        this.renderFailures(containerEl);
+    }
+
+    private renderFailures(containerEl: HTMLElement) {
+        const failures = this.plugin.settings.failures;
+        containerEl.createEl("h5", {text: `Failures (${failures.length})`});
+
+        if (!failures.length) {
+            containerEl.createDiv({cls: "import-details-item pending", text: "No failed items."});
+            return;
+        }
+
+        const listEl = containerEl.createDiv({cls: "import-details-container n2o-progress-failures"});
+        for (const failure of failures.slice(0, MAX_LISTED_FAILURES)) {
+            const itemEl = listEl.createDiv({cls: "import-details-item error n2o-progress-failure"});
+            itemEl.createSpan({cls: "import-details-icon", text: "✗"});
+            itemEl.createSpan({text: describeFailure(failure)});
+            itemEl.createDiv({cls: "import-details-error", text: failure.error});
+            itemEl.addEventListener("click", () => this.openFailure(failure));
+        }
+        if (failures.length > MAX_LISTED_FAILURES) {
+            listEl.createDiv({
+                cls: "import-details-item pending",
+                text: `...and ${failures.length - MAX_LISTED_FAILURES} more`,
+            });
+        }
+    }
+
+    /**
+     * Opens the note the failure belongs to, or the Notion page when no note was written
+     */
+    private async openFailure(failure: MigrationFailure) {
+        if (failure.notePath && await this.app.vault.adapter.exists(failure.notePath)) {
+            await this.app.workspace.openLinkText(failure.notePath, "", false);
+            return;
+        }
+        window.open(`https://www.notion.so/${failure.pageId.replace(/-/g, "")}`);
+    }
+}
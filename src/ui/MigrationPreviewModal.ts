@@ -0,0 +1,74 @@
+import { App, Modal } from "obsidian";
+import { MigrationRun } from "../interfaces/NotionTypes";
+import { describeFailure } from "../core/failures";
+
+/**
+ * Shows what a dry run found: the notes that would be written, name collisions,
+ * attachments to download, dropped properties and unsupported block types
+ */
+export class MigrationPreviewModal extends Modal {
+    run: MigrationRun;
+
+    constructor(app: App, run: MigrationRun) {
+        super(app);
+        this.run = run;
+    }
+
+    onOpen() {
+        const {contentEl} = this;
+        const {preview, unsupportedBlocks, failures} = this.run;
+        contentEl.empty();
+        contentEl.addClass("n2o-preview-modal");
+
+        contentEl.createEl("h2", {text: "Dry run report"});
+        contentEl.createEl("p", {
+            text: "Nothing was written to the vault. This is what a migration with the current settings would do.",
+            cls: "setting-item-description",
+        });
+
+        const created = preview.files.filter((file) => file.action === "create").length;
+        this.renderSection(
+            `Files (${created} new, ${preview.files.length - created} updated)`,
+            preview.files.map((file) => `${file.action === "create" ? "Create" : "Update"}: ${file.path}`)
+        );
+        this.renderSection(
+            `Name collisions (${preview.collisions.length})`,
+            preview.collisions.map((collision) => `"${collision.title}" would be saved as ${collision.path}`)
+        );
+        this.renderSection(
+            `Attachments to download (${preview.attachments.length})`,
+            preview.attachments.map((attachment) => `${attachment.targetPath} (from "${attachment.pageTitle}")`)
+        );
+        this.renderSection(
+            `Dropped properties (${Object.keys(preview.droppedProperties).length})`,
+            Object.entries(preview.droppedProperties).map(([property, reason]) => `${property}: ${reason}`)
+        );
+        this.renderSection(
+            `Unsupported block types (${Object.keys(unsupportedBlocks).length})`,
+            Object.entries(unsupportedBlocks).map(([blockType, pages]) => `${blockType}: ${pages.join(", ")}`)
+        );
+        if (failures.length) {
+            this.renderSection(
+                `Could not be rendered (${failures.length})`,
+                failures.map((failure) => `${describeFailure(failure)}: ${failure.error}`)
+            );
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+
+    private renderSection(title: string, items: string[]) {
+        const {contentEl} = this;
+        contentEl.createEl("h4", {text: title});
+        if (!items.length) {
+            contentEl.createDiv({cls: "import-details-item pending", text: "None"});
+            return;
+        }
+        const listEl = contentEl.createEl("ul", {cls: "n2o-preview-list"});
+        for (const item of items) {
+            listEl.createEl("li", {text: item});
+        }
+    }
+}
@@ -1,9 +1,34 @@
-import { App, Notice, PluginSettingTab, Setting, TFolder, requestUrl } from "obsidian";
+import {
+    App,
+    DropdownComponent,
+    Notice,
+    PluginSettingTab,
+    Setting,
+    TextComponent,
+    TFolder,
+    ToggleComponent
+} from "obsidian";
 import NotionMigrationPlugin from "../main";
 import { FolderSuggest } from "./FolderSuggest";
+import { MigrationPreviewModal } from "./MigrationPreviewModal";
+import { QueryFilterBuilder } from "./QueryFilterBuilder";
 import { fetchNotionData, getDatabaseName } from "../core/notionHandling";
-import { createMarkdownFiles } from "../core/markdownCreation";
+import { hasResumableCheckpoint, migrateDatabase, previewMigration, retryFailures } from "../core/migration";
+import { notionRequest } from "../core/notionClient";
+import { isValidTimezone } from "../core/dates";
+import { normalizeNotionId } from "../core/noteIndex";
+import { DEFAULT_PROPERTY_MAPPING, TAG_PROPERTY_TYPES } from "../core/propertyMapping";
 import { NotionProperty, NotionProperties, NotionPageResponse } from "../interfaces/NotionTypes";
+import {
+    ChildDatabaseView,
+    ColumnLayout,
+    ConflictPolicy,
+    DateMentionStyle,
+    PropertyKeyStyle,
+    PropertyMapping,
+    PropertyPlacement,
+    PropertyTargetType
+} from "../interfaces/PluginSettings";
 import tippy from 'tippy.js';
 
 export class NotionMigrationSettingTab extends PluginSettingTab {
@@ -12,6 +37,7 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
     loadingEl: HTMLElement;
     statusEl: HTMLElement;
     dbIdInput: HTMLInputElement;
+    queryFilterBuilder: QueryFilterBuilder;
     private activeNotice: Notice | null = null;
 
     constructor(app: App, plugin: NotionMigrationPlugin) {
@@ -55,20 +81,33 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
     display(): void {
         const {containerEl} = this;
         containerEl.empty();
-        let {logWindow, startButton, stopButton} = this.createUI(containerEl);
-
-        if (this.plugin.settings.isImporting) {
-            startButton.textContent = "Migrating...";
-            startButton.disabled = true;
-            stopButton.disabled = false;
-        } else {
-            startButton.textContent = "Start Migration";
-            startButton.disabled = false;
-            stopButton.disabled = true;
-        }
+        let {logWindow, startButton, dryRunButton, pauseButton, stopButton, retryButton} = this.createUI(containerEl);
+
+        // Shows whether a migration is running, paused with a checkpoint, or idle
+        const updateButtons = () => {
+            const isImporting = this.plugin.importControl.isImporting;
+            const canResume = hasResumableCheckpoint(this.plugin.settings);
+
+            if (isImporting) {
+                startButton.textContent = "Migrating...";
+            } else if (canResume) {
+                startButton.textContent = "Resume Migration";
+            } else {
+                startButton.textContent = "Start Migration";
+            }
+            startButton.disabled = isImporting;
+            dryRunButton.disabled = isImporting;
+            pauseButton.disabled = !isImporting;
+            // Stopping while idle discards the saved progress of a paused migration
+            stopButton.disabled = !isImporting && !canResume;
+
+            const failureCount = this.plugin.settings.failures.length;
+            retryButton.textContent = failureCount ? `Retry Failures (${failureCount})` : "Retry Failures";
+            retryButton.disabled = isImporting || canResume || failureCount === 0;
+        };
 
         logWindow.value = this.plugin.settings.migrationLog;
-        stopButton.disabled = !this.plugin.importControl.isImporting;
+        updateButtons();
 
         const logMessage = (message: string) => {
             logWindow.value += `${message}\n`;
@@ -76,6 +115,7 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             this.plugin.settings.migrationLog = logWindow.value;
             this.plugin.saveSettings();
         };
+        this.plugin.tracker.setLogCallback(logMessage);
 
         startButton.addEventListener("click", async () => {
             try {
@@ -93,63 +133,44 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                 this.plugin.settings.isImporting = true;
                 await this.plugin.saveSettings();
                 this.plugin.importControl.isImporting = true;
+                this.plugin.importControl.forceStop = false;
+                this.plugin.importControl.isPaused = false;
 
                 // Show the status bar indicator
                 this.plugin.showImportStatus();
 
-                stopButton.disabled = false;
-                startButton.textContent = "Migrating...";
-                startButton.disabled = true;
+                updateButtons();
 
-                const logMessage = (message: string) => {
-                    logWindow.value += `${message}\n`;
-                    logWindow.scrollTop = logWindow.scrollHeight;
-                    this.plugin.settings.migrationLog = logWindow.value;
-                    this.plugin.saveSettings();
-                };
-
-                const dbName = await getDatabaseName(this.plugin.settings.apiKey, this.plugin.settings.databaseId);
+                const dbName = await getDatabaseName(
+                    this.plugin.settings.apiKey,
+                    this.plugin.settings.databaseId,
+                    logMessage
+                );
                 if (dbName) {
                     logMessage(`Starting to migrate content from Notion database: ${dbName}`);
                 } else {
                     logMessage("Starting to migrate content from Notion...");
                 }
 
-                logMessage("Fetching data from Notion...");
-                const allPages = await fetchNotionData(
-                    this.plugin.settings.databaseId,
-                    this.plugin.settings.apiKey
-                );
-                logMessage(`${allPages.length} items fetched from Notion.`);
-
-                logMessage("Creating markdown files...");
-                await createMarkdownFiles(
-                    allPages,
-                    this.plugin.settings.migrationPath,
-                    this.plugin.settings.apiKey,
+                const result = await migrateDatabase(
+                    this.plugin.settings,
                     this.app,
-                    this.plugin.settings.attachPageId,
-                    this.plugin.settings.importPageContent,
                     this.plugin.importControl,
                     logMessage,
-                    this.plugin.settings.createRelationContentPage,
-                    this.plugin.settings.enabledProperties,
-                    this.plugin.settings.createSemanticLinking,
-                    this.plugin.settings.attachmentPath,
-                    this.plugin.settings.squashDateNamesForDataview,
-                    this.plugin.settings.subpagesPath,
-                    this.plugin.settings.importSubpages
+                    () => this.plugin.saveSettings(),
+                    this.plugin.tracker
                 );
-                // Check if the import was stopped by user or completed normally
-                if (this.plugin.importControl.isImporting) {
+
+                // Check if the import was paused, stopped by user or completed normally
+                if (result === "completed") {
                     logMessage("Migration completed!");
                     this.showStatus("Migration completed successfully!", "success");
-                } else if (this.plugin.importControl.forceStop) {
+                } else if (result === "paused") {
+                    logMessage("Migration paused. Click \"Resume Migration\" to continue, even after restarting Obsidian.");
+                    this.showStatus("Migration paused", "info");
+                } else {
                     logMessage("Migration was stopped by user.");
                     this.showStatus("Migration stopped by user", "info");
-                } else {
-                    logMessage("Migration ended with issues.");
-                    this.showStatus("Migration ended. Check log for details.", "info");
                 }
 
             } catch (error) {
@@ -158,15 +179,13 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             } finally {
                 this.hideLoading();
 
-                // Update UI regardless of success or failure
-                startButton.textContent = "Start Migration";
-                startButton.disabled = false;
-                stopButton.disabled = true;
-
                 // Reset the plugin's importing state
                 this.plugin.settings.isImporting = false;
                 this.plugin.importControl.isImporting = false;
 
+                // Update UI regardless of success or failure
+                updateButtons();
+
                 // Hide the status bar indicator
                 this.plugin.hideImportStatus();
 
@@ -177,11 +196,104 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             }
         });
 
+        dryRunButton.addEventListener("click", async () => {
+            if (!this.plugin.settings.migrationPath) {
+                this.showStatus("Please set a migration path first.", "error");
+                return;
+            }
+            try {
+                this.plugin.importControl.isImporting = true;
+                this.plugin.importControl.forceStop = false;
+                this.plugin.importControl.isPaused = false;
+
+                this.plugin.showImportStatus();
+                updateButtons();
+                // A dry run has no checkpoint to resume from
+                pauseButton.disabled = true;
+
+                const run = await previewMigration(
+                    this.plugin.settings,
+                    this.app,
+                    this.plugin.importControl,
+                    logMessage,
+                    this.plugin.tracker
+                );
+
+                logMessage(`Dry run finished: ${run.preview.files.length} files would be written.`);
+                new MigrationPreviewModal(this.app, run).open();
+            } catch (error) {
+                logMessage(`Error: ${error.message}`);
+                this.showStatus(`Dry run failed: ${error.message}`, "error");
+            } finally {
+                this.plugin.importControl.isImporting = false;
+                this.plugin.hideImportStatus();
+                updateButtons();
+            }
+        });
+
+        retryButton.addEventListener("click", async () => {
+            try {
+                this.plugin.settings.isImporting = true;
+                this.plugin.importControl.isImporting = true;
+                this.plugin.importControl.forceStop = false;
+                this.plugin.importControl.isPaused = false;
+                await this.plugin.saveSettings();
+
+                this.plugin.showImportStatus();
+                updateButtons();
+                // Pausing a retry has no checkpoint to resume from
+                pauseButton.disabled = true;
+
+                const remaining = await retryFailures(
+                    this.plugin.settings,
+                    this.app,
+                    this.plugin.importControl,
+                    logMessage,
+                    () => this.plugin.saveSettings(),
+                    this.plugin.tracker
+                );
+
+                if (remaining === 0) {
+                    logMessage("All failed items were imported.");
+                    this.showStatus("All failed items were imported!", "success");
+                } else {
+                    logMessage(`${remaining} items still failed.`);
+                    this.showStatus(`${remaining} items still failed. Check log for details.`, "info");
+                }
+            } catch (error) {
+                logMessage(`Error: ${error.message}`);
+                this.showStatus(`Retry failed: ${error.message}`, "error");
+            } finally {
+                this.plugin.settings.isImporting = false;
+                this.plugin.importControl.isImporting = false;
+                this.plugin.hideImportStatus();
+                updateButtons();
+                await this.plugin.saveSettings();
+            }
+        });
+
+        pauseButton.addEventListener("click", () => {
+            logMessage("Pausing after the current page...");
+            // The migration checks this between pages. Progress keeps updating until the page is done,
+            // then the migration hides the status and resets the importing state
+            this.plugin.importControl.isPaused = true;
+            pauseButton.disabled = true;
+        });
+
         stopButton.addEventListener("click", async () => {
+            if (!this.plugin.importControl.isImporting) {
+                this.plugin.settings.checkpoint = null;
+                await this.plugin.saveSettings();
+                logMessage("Discarded the progress of the paused migration.");
+                updateButtons();
+                return;
+            }
+
             logMessage("Initiating graceful stop...");
             // Set both flags to false
             this.plugin.settings.isImporting = false;
             this.plugin.importControl.isImporting = false;
+            this.plugin.importControl.isPaused = false;
             // Add a new flag for immediate stop
             this.plugin.importControl.forceStop = true;
 
@@ -190,10 +302,66 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
 
             await this.plugin.saveSettings();
             stopButton.disabled = true;
-            startButton.textContent = "Start Migration";
+            pauseButton.disabled = true;
         });
     }
 
+    /**
+     * Adds the cells that map a property to a frontmatter key, type and placement, or to tags.
+     * Mappings are saved per database, so switching databases keeps them.
+     */
+    private renderPropertyMapping(propertyRow: HTMLElement, databaseId: string, propertyName: string, propertyType: string) {
+        const databaseKey = normalizeNotionId(databaseId);
+        const mapping = {...DEFAULT_PROPERTY_MAPPING, ...(this.plugin.settings.propertyMappings[databaseKey] || {})[propertyName]};
+        const updateMapping = async (change: Partial<PropertyMapping>) => {
+            const mappings = this.plugin.settings.propertyMappings[databaseKey] || (this.plugin.settings.propertyMappings[databaseKey] = {});
+            mappings[propertyName] = {...mapping, ...mappings[propertyName], ...change};
+            await this.plugin.saveSettings();
+        };
+
+        new TextComponent(propertyRow.createEl('td', {cls: 'n2o-table-cell'}))
+            .setPlaceholder(propertyName)
+            .setValue(mapping.key)
+            .onChange(async (value) => updateMapping({key: value.trim()}));
+        new DropdownComponent(propertyRow.createEl('td', {cls: 'n2o-table-cell'}))
+            .addOption("original", "As named")
+            .addOption("camelCase", "camelCase")
+            .addOption("snake_case", "snake_case")
+            .addOption("kebab-case", "kebab-case")
+            .setValue(mapping.keyStyle)
+            .onChange(async (value: PropertyKeyStyle) => updateMapping({keyStyle: value}));
+        new DropdownComponent(propertyRow.createEl('td', {cls: 'n2o-table-cell'}))
+            .addOption("auto", "Automatic")
+            .addOption("text", "Text")
+            .addOption("list", "List")
+            .addOption("tags", "Tags")
+            .addOption("link", "Link")
+            .addOption("date", "Date")
+            .setValue(mapping.type)
+            .onChange(async (value: PropertyTargetType) => updateMapping({type: value}));
+        new DropdownComponent(propertyRow.createEl('td', {cls: 'n2o-table-cell'}))
+            .addOption("frontmatter", "Frontmatter")
+            .addOption("inline", "Inline field (key::)")
+            .addOption("body", "Note body")
+            .setValue(mapping.placement)
+            .onChange(async (value: PropertyPlacement) => updateMapping({placement: value}));
+
+        // Only options can become tags
+        const tagsCell = propertyRow.createEl('td', {cls: 'n2o-table-cell'});
+        const tagPrefixCell = propertyRow.createEl('td', {cls: 'n2o-table-cell'});
+        if (!TAG_PROPERTY_TYPES.includes(propertyType)) {
+            return;
+        }
+        new ToggleComponent(tagsCell)
+            .setValue(mapping.toTags)
+            .setTooltip("Add the options to the note's tags")
+            .onChange(async (value) => updateMapping({toTags: value}));
+        new TextComponent(tagPrefixCell)
+            .setPlaceholder("e.g. project")
+            .setValue(mapping.tagPrefix)
+            .onChange(async (value) => updateMapping({tagPrefix: value.trim()}));
+    }
+
     async displayPageList() {
         try {
             this.showLoading("Fetching Notion databases...");
@@ -205,25 +373,13 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             }
 
             const query = '';
-            const requestOptions = {
-                method: 'POST',
-                url: 'https://api.notion.com/v1/search',
-                headers: {
-                    Authorization: `Bearer ${apiKey}`,
-                    'Notion-Version': '2022-06-28',
-                    'Content-Type': 'application/json',
+            const responseData = await notionRequest(apiKey, '/search', 'POST', {
+                query: query,
+                filter: {
+                    value: 'database',
+                    property: 'object',
                 },
-                body: JSON.stringify({
-                    query: query,
-                    filter: {
-                        value: 'database',
-                        property: 'object',
-                    },
-                }),
-            };
-
-            const response = await requestUrl(requestOptions);
-            const responseData = JSON.parse(response.text);
+            });
 
             const container = document.getElementById('page-list-container');
             if (!container) return;
@@ -292,6 +448,13 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                         // Show loading notification
                         this.showStatus("Loading table properties...", "info");
 
+                        // Filters and sorts refer to the properties of the previous database
+                        if (this.plugin.settings.databaseId !== page.id) {
+                            this.plugin.settings.queryFilters = [];
+                            this.plugin.settings.querySorts = [];
+                            this.queryFilterBuilder?.display();
+                        }
+
                         // Update database ID
                         this.plugin.settings.databaseId = page.id;
                         if (this.dbIdInput) {
@@ -346,6 +509,9 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                                 text: 'Import',
                                 cls: 'n2o-table-cell'
                             });
+                            for (const heading of ['Key', 'Key style', 'Target type', 'Placement', 'Tags', 'Tag prefix']) {
+                                propertiesHeaderRow.createEl('th', {text: heading, cls: 'n2o-table-cell'});
+                            }
 
                             // Add properties rows
                             const propertiesTbody = propertiesTable.createEl('tbody');
@@ -372,6 +538,8 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                                     this.plugin.settings.enabledProperties[key] = isChecked;
                                     await this.plugin.saveSettings();
                                 });
+
+                                this.renderPropertyMapping(propertyRow, page.id, key, value.type);
                             }
                         }
                     } catch (error) {
@@ -472,6 +640,20 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             attr: {class: 'collapsible-content'}
         });
 
+        // Filter Settings Section
+        containerEl.createEl("h2", {
+            text: "Filters and Sorting",
+            cls: "n2o-section-header"
+        });
+
+        containerEl.createEl("p", {
+            text: "Only import the pages that match these filters, e.g. Status equals Done or Created time after 2024-01-01. Leave empty to import the whole database.",
+            cls: "setting-item-description"
+        });
+
+        this.queryFilterBuilder = new QueryFilterBuilder(containerEl.createDiv(), this.plugin);
+        this.queryFilterBuilder.display();
+
         // Migration Settings Section
         containerEl.createEl("h2", {
             text: "Destination Settings",
@@ -563,6 +745,104 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(containerEl)
+            .setName("Date mention format")
+            .setDesc("How dates mentioned in page content are written, in moment.js format. Use the format of your daily notes, e.g. YYYY-MM-DD, so the links open them.")
+            .addText(text =>
+                text
+                    .setPlaceholder("D.M.YYYY")
+                    .setValue(this.plugin.settings.dateMentionFormat)
+                    .onChange(async value => {
+                        this.plugin.settings.dateMentionFormat = value.trim() || "D.M.YYYY";
+                        await this.plugin.saveSettings();
+                    })
+            )
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption("link", "As [[link]]")
+                    .addOption("text", "As plain text")
+                    .setValue(this.plugin.settings.dateMentionStyle)
+                    .onChange(async (value: DateMentionStyle) => {
+                        this.plugin.settings.dateMentionStyle = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Timezone")
+            .setDesc("Timezone for dates with a time. Use UTC, local for the timezone of this computer, or a name like Europe/Berlin. Dates without a time are kept as plain dates.")
+            .addText(text =>
+                text
+                    .setPlaceholder("UTC")
+                    .setValue(this.plugin.settings.timezone)
+                    .onChange(async value => {
+                        const timezone = value.trim() || "UTC";
+                        text.inputEl.toggleClass("n2o-invalid", !isValidTimezone(timezone));
+                        if (!isValidTimezone(timezone)) {
+                            return;
+                        }
+                        this.plugin.settings.timezone = timezone;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Callout types")
+            .setDesc("Obsidian callout type for Notion callouts, by emoji icon or colour. One per line, e.g. 💡 = tip or red_background = danger. The emoji is checked first.")
+            .addTextArea(text => {
+                text
+                    .setValue(Object.entries(this.plugin.settings.calloutTypes)
+                        .map(([iconOrColor, type]) => `${iconOrColor} = ${type}`)
+                        .join("\n"))
+                    .onChange(async value => {
+                        const calloutTypes: { [iconOrColor: string]: string } = {};
+                        for (const line of value.split("\n")) {
+                            const [iconOrColor, type] = line.split("=").map((part) => part.trim());
+                            if (iconOrColor && type) {
+                                calloutTypes[iconOrColor] = type.toLowerCase();
+                            }
+                        }
+                        this.plugin.settings.calloutTypes = calloutTypes;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.rows = 6;
+            })
+            .addText(text =>
+                text
+                    .setPlaceholder("note")
+                    .setValue(this.plugin.settings.defaultCalloutType)
+                    .onChange(async value => {
+                        this.plugin.settings.defaultCalloutType = value.trim().toLowerCase() || "note";
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Table of contents placeholder")
+            .setDesc("Written where a Notion page has a table of contents, e.g. a code block for a table of contents plugin. Leave empty to drop it.")
+            .addTextArea(text =>
+                text
+                    .setValue(this.plugin.settings.tableOfContentsPlaceholder)
+                    .onChange(async value => {
+                        this.plugin.settings.tableOfContentsPlaceholder = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
+        new Setting(containerEl)
+            .setName("Column layout")
+            .setDesc("How Notion columns are written. Side by side uses a [!multi-column] callout, which needs a multi-column CSS snippet or theme.")
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption("stacked", "One after another")
+                    .addOption("callout", "Side by side (callout)")
+                    .setValue(this.plugin.settings.columnLayout)
+                    .onChange(async (value: ColumnLayout) => {
+                        this.plugin.settings.columnLayout = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         new Setting(containerEl)
             .setName("Add unique IDs to filenames")
             .setDesc("Prevents naming conflicts by adding Notion's ID to each filename. This ensures no files get accidentally overwritten when notes have the same name.")
@@ -587,6 +867,28 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(containerEl)
+            .setName("Import inline databases")
+            .setDesc("Imports the rows of databases inside your Notion pages into a subfolder of the migration folder. The page then lists them in a Dataview table or an embedded Obsidian base. Otherwise inline databases are left out.")
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.plugin.settings.importChildDatabases)
+                    .onChange(async value => {
+                        this.plugin.settings.importChildDatabases = value;
+                        await this.plugin.saveSettings();
+                    })
+            )
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption("dataview", "Dataview table")
+                    .addOption("base", "Obsidian base")
+                    .setValue(this.plugin.settings.childDatabaseView)
+                    .onChange(async (value: ChildDatabaseView) => {
+                        this.plugin.settings.childDatabaseView = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         new Setting(containerEl)
             .setName("Import page content")
             .setDesc("Copies all the text, images, and other content from your Notion pages. If turned off, only the properties will be imported.")
@@ -599,6 +901,42 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
                     })
             );
 
+        new Setting(containerEl)
+            .setName("Sync changes only")
+            .setDesc("Keeps an earlier import up to date. Only pages edited in Notion since the last run are fetched, and their existing notes are handled by the setting below.")
+            .addToggle(toggle =>
+                toggle
+                    .setValue(this.plugin.settings.syncMode)
+                    .onChange(async value => {
+                        this.plugin.settings.syncMode = value;
+                        await this.plugin.saveSettings();
+                    })
+            )
+            .addExtraButton(button => button
+                .setIcon("reset")
+                .setTooltip("Forget what was synced for the selected database")
+                .onClick(async () => {
+                    delete this.plugin.settings.syncState[this.plugin.settings.databaseId];
+                    await this.plugin.saveSettings();
+                    this.showStatus("Sync state cleared. The next run will import every page.", "info");
+                })
+            );
+
+        new Setting(containerEl)
+            .setName("When a note already exists")
+            .setDesc("What to do when a page was imported before. Notes are recognised by the notion_id property, even after being renamed or moved.")
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOption("overwrite", "Overwrite the note")
+                    .addOption("frontmatter", "Update properties, keep my edits")
+                    .addOption("skip", "Skip the page")
+                    .setValue(this.plugin.settings.conflictPolicy)
+                    .onChange(async (value: ConflictPolicy) => {
+                        this.plugin.settings.conflictPolicy = value;
+                        await this.plugin.saveSettings();
+                    })
+            );
+
         // Migration Log Section
         containerEl.createEl("h2", {
             text: "Migration Log",
@@ -621,11 +959,26 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             cls: ["mod-cta", "n2o-start-button"],
         });
 
+        const dryRunButton = buttonContainer.createEl("button", {
+            text: "Dry Run",
+            cls: "n2o-dry-run-button",
+        });
+
+        const pauseButton = buttonContainer.createEl("button", {
+            text: "Pause Migration",
+            cls: "n2o-pause-button",
+        });
+
         const stopButton = buttonContainer.createEl("button", {
             text: "Stop Migration",
             cls: ["mod-warning", "n2o-stop-button"],
         });
 
+        const retryButton = buttonContainer.createEl("button", {
+            text: "Retry Failures",
+            cls: "n2o-retry-button",
+        });
+
         const clearButton = buttonContainer.createEl("button", {
             text: "Clear Log",
             cls: "mod-warning",
@@ -637,6 +990,6 @@ export class NotionMigrationSettingTab extends PluginSettingTab {
             this.plugin.saveSettings();
         });
 
-        return {logWindow, startButton, stopButton};
+        return {logWindow, startButton, dryRunButton, pauseButton, stopButton, retryButton};
     }
 }
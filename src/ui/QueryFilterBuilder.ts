@@ -0,0 +1,185 @@
+import { Setting } from "obsidian";
+import NotionMigrationPlugin from "../main";
+import { FILTER_OPERATORS, TIMESTAMP_FILTER_TYPES, operatorNeedsValue } from "../core/queryBuilder";
+import { QueryFilterRule } from "../interfaces/PluginSettings";
+
+const TYPE_LABELS: { [type: string]: string } = {
+    title: "Title",
+    rich_text: "Text",
+    url: "URL",
+    email: "Email",
+    phone_number: "Phone",
+    number: "Number",
+    checkbox: "Checkbox",
+    select: "Select",
+    status: "Status",
+    multi_select: "Multi-select",
+    date: "Date",
+    created_time: "Created time",
+    last_edited_time: "Last edited time",
+};
+
+/**
+ * Renders the filter and sort rules applied to the Notion database query
+ */
+export class QueryFilterBuilder {
+    plugin: NotionMigrationPlugin;
+    containerEl: HTMLElement;
+
+    constructor(containerEl: HTMLElement, plugin: NotionMigrationPlugin) {
+        this.containerEl = containerEl;
+        this.plugin = plugin;
+    }
+
+    display(): void {
+        const {containerEl} = this;
+        const settings = this.plugin.settings;
+        containerEl.empty();
+
+        new Setting(containerEl)
+            .setName("Match")
+            .setDesc("Import pages that match all filters or any filter")
+            .addDropdown(dropdown => dropdown
+                .addOption("and", "All filters")
+                .addOption("or", "Any filter")
+                .setValue(settings.queryFilterMatch)
+                .onChange(async (value: "and" | "or") => {
+                    settings.queryFilterMatch = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+
+        settings.queryFilters.forEach((rule, index) => this.renderFilterRule(rule, index));
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText("Add filter")
+                .onClick(async () => {
+                    settings.queryFilters.push({
+                        property: "",
+                        type: "select",
+                        operator: "equals",
+                        value: "",
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            )
+            .addButton(button => button
+                .setButtonText("Add sort")
+                .onClick(async () => {
+                    settings.querySorts.push({property: "", direction: "ascending"});
+                    await this.plugin.saveSettings();
+                    this.display();
+                })
+            );
+
+        settings.querySorts.forEach((sort, index) => {
+            new Setting(containerEl)
+                .setName(`Sort ${index + 1}`)
+                .addText(text => text
+                    .setPlaceholder("Property name or created_time")
+                    .setValue(sort.property)
+                    .onChange(async (value) => {
+                        sort.property = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addDropdown(dropdown => dropdown
+                    .addOption("ascending", "Ascending")
+                    .addOption("descending", "Descending")
+                    .setValue(sort.direction)
+                    .onChange(async (value: "ascending" | "descending") => {
+                        sort.direction = value;
+                        await this.plugin.saveSettings();
+                    })
+                )
+                .addExtraButton(button => button
+                    .setIcon("trash")
+                    .setTooltip("Remove sort")
+                    .onClick(async () => {
+                        settings.querySorts.splice(index, 1);
+                        await this.plugin.saveSettings();
+                        this.display();
+                    })
+                );
+        });
+    }
+
+    private renderFilterRule(rule: QueryFilterRule, index: number) {
+        const settings = this.plugin.settings;
+        const isTimestamp = TIMESTAMP_FILTER_TYPES.includes(rule.type);
+
+        const setting = new Setting(this.containerEl)
+            .setName(`Filter ${index + 1}`)
+            .addText(text => text
+                .setPlaceholder(isTimestamp ? "Page timestamp" : "Property name")
+                .setValue(isTimestamp ? "" : rule.property)
+                .setDisabled(isTimestamp)
+                .onChange(async (value) => {
+                    rule.property = value;
+                    await this.plugin.saveSettings();
+                })
+            )
+            .addDropdown(dropdown => {
+                for (const type of Object.keys(FILTER_OPERATORS)) {
+                    dropdown.addOption(type, TYPE_LABELS[type] || type);
+                }
+                dropdown.setValue(rule.type).onChange(async (value) => {
+                    rule.type = value;
+                    // Keep the operator if the new type supports it
+                    if (!FILTER_OPERATORS[value].includes(rule.operator)) {
+                        rule.operator = FILTER_OPERATORS[value][0];
+                    }
+                    await this.plugin.saveSettings();
+                    this.display();
+                });
+            })
+            .addDropdown(dropdown => {
+                for (const operator of FILTER_OPERATORS[rule.type] || []) {
+                    dropdown.addOption(operator, operator.replace(/_/g, " "));
+                }
+                dropdown.setValue(rule.operator).onChange(async (value) => {
+                    rule.operator = value;
+                    await this.plugin.saveSettings();
+                    this.display();
+                });
+            });
+
+        if (operatorNeedsValue(rule.operator)) {
+            setting.addText(text => text
+                .setPlaceholder(this.getValuePlaceholder(rule.type))
+                .setValue(rule.value)
+                .onChange(async (value) => {
+                    rule.value = value;
+                    await this.plugin.saveSettings();
+                })
+            );
+        }
+
+        setting.addExtraButton(button => button
+            .setIcon("trash")
+            .setTooltip("Remove filter")
+            .onClick(async () => {
+                settings.queryFilters.splice(index, 1);
+                await this.plugin.saveSettings();
+                this.display();
+            })
+        );
+    }
+
+    private getValuePlaceholder(type: string): string {
+        switch (type) {
+            case "date":
+            case "created_time":
+            case "last_edited_time":
+                return "YYYY-MM-DD";
+            case "checkbox":
+                return "true or false";
+            case "number":
+                return "0";
+            default:
+                return "Value";
+        }
+    }
+}
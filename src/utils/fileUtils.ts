@@ -1,3 +1,5 @@
+import { ConflictPolicy } from "../interfaces/PluginSettings";
+
 const { requestUrl } = require("obsidian");
 
 const fs = require("fs");
@@ -5,6 +7,8 @@ const moment = require("moment");
 const axios = require("axios");
 const path = require("path");
 
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?\r?\n)?---\r?\n?/;
+
 /**
  * Downloads an image from a URL
  */
@@ -99,12 +103,15 @@ export const sanitizeTitle = (title: string) => {
 };
 
 /**
- * Generates a unique title for a file
+ * Generates a unique title for a file, also avoiding paths reserved for notes not written yet
  */
-export const generateUniqueTitle = (title: string, folderPath: string) => {
+export const generateUniqueTitle = (title: string, folderPath: string, reservedPaths?: Set<string>) => {
     let uniqueTitle = title;
     let counter = 1;
-    while (fs.existsSync(`${folderPath}/${uniqueTitle}.md`)) {
+    while (
+        fs.existsSync(`${folderPath}/${uniqueTitle}.md`) ||
+        (reservedPaths && reservedPaths.has(`${folderPath}/${uniqueTitle}.md`))
+    ) {
         uniqueTitle = `${title} (${counter})`;
         counter += 1;
     }
@@ -112,9 +119,27 @@ export const generateUniqueTitle = (title: string, folderPath: string) => {
 };
 
 /**
- * Writes content to a file with promise-based handling
+ * Replaces the frontmatter of an existing note and keeps its body
+ */
+export const replaceFrontmatter = (existingContent: string, newContent: string) => {
+    const newFrontmatter = newContent.match(FRONTMATTER_REGEX);
+    if (!newFrontmatter) {
+        return existingContent;
+    }
+    return newFrontmatter[0] + existingContent.replace(FRONTMATTER_REGEX, "");
+};
+
+/**
+ * Writes content to a file with promise-based handling.
+ * Without a conflict policy an existing file is kept and a counter is appended to the new name;
+ * with one, the existing file is skipped, overwritten or has only its frontmatter updated.
+ * Resolves with the path of the file on disk.
  */
-export const writeFilePromise = (fileName: string, content: string | null = "") => {
+export const writeFilePromise = (
+    fileName: string,
+    content: string | null = "",
+    conflictPolicy?: ConflictPolicy
+): Promise<string> => {
     return new Promise((resolve, reject) => {
         // Ensure directory exists
         const dir = path.dirname(fileName);
@@ -122,13 +147,23 @@ export const writeFilePromise = (fileName: string, content: string | null = "")
             fs.mkdirSync(dir, {recursive: true});
         }
 
+        if (conflictPolicy && fs.existsSync(fileName)) {
+            if (conflictPolicy === "skip") {
+                resolve(fileName);
+                return;
+            }
+            if (conflictPolicy === "frontmatter") {
+                content = replaceFrontmatter(fs.readFileSync(fileName, "utf8"), content || "");
+            }
+        }
+
         // Generate unique filename
         const fileNameWithoutExt = path.join(dir, path.parse(fileName).name);
         const ext = path.extname(fileName);
         let uniqueFileName = fileName;
         let counter = 1;
 
-        while (fs.existsSync(uniqueFileName)) {
+        while (!conflictPolicy && fs.existsSync(uniqueFileName)) {
             uniqueFileName = `${fileNameWithoutExt} (${counter})${ext}`;
             counter++;
         }
@@ -138,12 +173,19 @@ export const writeFilePromise = (fileName: string, content: string | null = "")
                 console.error(`Error writing file ${uniqueFileName}: ${err}`);
                 reject(err);
             } else {
-                resolve(`${uniqueFileName} was saved!`);
+                resolve(uniqueFileName);
             }
         });
     });
 };
 
+/**
+ * Converts an absolute path inside the vault to a vault-relative path
+ */
+export function toVaultPath(fullPath: string, vaultPath: string) {
+    return path.relative(vaultPath, fullPath).split(path.sep).join("/");
+}
+
 /**
  * Gets file extension from a URL
  */